@@ -1,5 +1,14 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
-import { htmlToSvg } from './htmlToSvg';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+    createIconRegistryFromJson,
+    createIconRegistryFromSprite,
+    htmlToSvg,
+    type FontManifest,
+    type IconProvider,
+    type ImageEncoding,
+    type ImageReport,
+    type OutlineFontSource,
+} from './htmlToSvg';
 import './App.css';
 
 type ToastState = {
@@ -7,6 +16,16 @@ type ToastState = {
     tone: 'success' | 'error';
 };
 
+type IconPack = {
+    name: string;
+    provider: IconProvider;
+};
+
+type OutlineFontFile = {
+    name: string;
+    source: OutlineFontSource;
+};
+
 type SanitizedMarkup = {
     markup: string;
     inlineCss: string;
@@ -15,6 +34,19 @@ type SanitizedMarkup = {
     tailwindConfigInline?: string;
 };
 
+// Figma slows down noticeably on SVGs above a few megabytes
+const SVG_SIZE_BUDGET_BYTES = 5 * 1024 * 1024;
+
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
 const DOCTYPE_REGEX = /<!doctype[^>]*>/gi;
 const SCRIPT_REGEX = /<script[\s\S]*?>[\s\S]*?<\/script>/gi;
 const STYLE_REGEX = /<style[^>]*>([\s\S]*?)<\/style>/gi;
@@ -102,6 +134,20 @@ const hasLayoutBox = (element: HTMLElement): boolean => {
     return rect.width > 0 && rect.height > 0;
 };
 
+// Icon packs are local files: Iconify-style JSON collections or SVG sprites of <symbol>s
+const loadIconPack = async (file: File): Promise<IconPack> => {
+    const text = await file.text();
+    const provider = file.name.toLowerCase().endsWith('.svg')
+        ? createIconRegistryFromSprite(text)
+        : createIconRegistryFromJson(JSON.parse(text));
+    return { name: file.name, provider };
+};
+
+const loadOutlineFont = async (file: File): Promise<OutlineFontFile> => ({
+    name: file.name,
+    source: { data: await file.arrayBuffer() },
+});
+
 const copySvgToClipboard = async (svgString: string): Promise<void> => {
     if (!navigator.clipboard) {
         throw new Error('Clipboard API is not available in this browser.');
@@ -133,7 +179,16 @@ const App = () => {
     const [activeAction, setActiveAction] = useState<'generate' | 'copy' | null>(null);
     const [errorMessage, setErrorMessage] = useState<string | null>(null);
     const [toast, setToast] = useState<ToastState | null>(null);
+    const [iconPacks, setIconPacks] = useState<IconPack[]>([]);
+    const [embedFonts, setEmbedFonts] = useState(false);
+    const [fontManifest, setFontManifest] = useState<FontManifest | null>(null);
+    const [textAsPaths, setTextAsPaths] = useState(false);
+    const [outlineFonts, setOutlineFonts] = useState<OutlineFontFile[]>([]);
+    const [imageEncoding, setImageEncoding] = useState<ImageEncoding>({ format: 'original', quality: 0.85, pixelRatio: 2 });
+    const [imageReport, setImageReport] = useState<ImageReport | null>(null);
     const hiddenContainerRef = useRef<HTMLDivElement | null>(null);
+    // Encoded size in bytes; string length counts UTF-16 code units
+    const svgBytes = useMemo(() => new Blob([svgOutput]).size, [svgOutput]);
 
     const showToast = useCallback((message: string, tone: 'success' | 'error' = 'success') => {
         setToast({ message, tone });
@@ -147,6 +202,39 @@ const App = () => {
         return () => window.clearTimeout(id);
     }, [toast]);
 
+    const handleIconPacks = useCallback(
+        async (files: FileList | null) => {
+            if (!files?.length) {
+                return;
+            }
+            try {
+                const loaded = await Promise.all(Array.from(files).map(loadIconPack));
+                setIconPacks((current) => [...current, ...loaded]);
+                showToast(`Loaded ${loaded.length} icon pack${loaded.length === 1 ? '' : 's'}`);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Failed to load icon pack.';
+                showToast(message, 'error');
+            }
+        },
+        [showToast],
+    );
+
+    const handleOutlineFonts = useCallback(
+        async (files: FileList | null) => {
+            if (!files?.length) {
+                return;
+            }
+            try {
+                const loaded = await Promise.all(Array.from(files).map(loadOutlineFont));
+                setOutlineFonts((current) => [...current, ...loaded]);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Failed to load font file.';
+                showToast(message, 'error');
+            }
+        },
+        [showToast],
+    );
+
     useEffect(() => {
         return () => {
             if (hiddenContainerRef.current) {
@@ -172,6 +260,8 @@ const App = () => {
             setIsGenerating(true);
             setActiveAction(shouldCopy ? 'copy' : 'generate');
             setErrorMessage(null);
+            setFontManifest(null);
+            setImageReport(null);
 
             try {
                 // Snapshot existing <style> tags so we only collect newly added ones later (e.g., Tailwind output),
@@ -294,7 +384,16 @@ const App = () => {
                 if (!hasLayoutBox(rootElement)) {
                     throw new Error('Root element has no measurable layout');
                 }
-                const svgString = await htmlToSvg(rootElement, { inlineCss: collectedCss });
+                const svgString = await htmlToSvg(rootElement, {
+                    inlineCss: collectedCss,
+                    iconProviders: iconPacks.map((pack) => pack.provider),
+                    embedFonts,
+                    onFontManifest: setFontManifest,
+                    textMode: textAsPaths ? 'paths' : 'text',
+                    outlineFonts: outlineFonts.map((font) => font.source),
+                    imageEncoding,
+                    onImageReport: setImageReport,
+                });
                 setSvgOutput(svgString);
 
                 if (shouldCopy) {
@@ -313,7 +412,7 @@ const App = () => {
                 setActiveAction(null);
             }
         },
-        [htmlInput, showToast],
+        [htmlInput, iconPacks, embedFonts, textAsPaths, outlineFonts, imageEncoding, showToast],
     );
 
     return (
@@ -339,6 +438,89 @@ const App = () => {
                     spellCheck={false}
                 />
 
+                <div className="asset-row">
+                    <label className="asset-picker">
+                        <span>Icon packs (.json, .svg)</span>
+                        <input
+                            type="file"
+                            accept=".json,.svg,application/json,image/svg+xml"
+                            multiple
+                            onChange={(event) => {
+                                void handleIconPacks(event.target.files);
+                                event.target.value = '';
+                            }}
+                        />
+                    </label>
+                    {iconPacks.length > 0 && (
+                        <span className="asset-list">
+                            {iconPacks.map((pack) => pack.name).join(', ')}
+                            <button type="button" className="link-button" onClick={() => setIconPacks([])}>
+                                Clear
+                            </button>
+                        </span>
+                    )}
+                </div>
+
+                <div className="asset-row">
+                    <label className="asset-picker">
+                        <span>Fonts for outlines (.ttf, .otf, .woff, .woff2)</span>
+                        <input
+                            type="file"
+                            accept=".ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2"
+                            multiple
+                            onChange={(event) => {
+                                void handleOutlineFonts(event.target.files);
+                                event.target.value = '';
+                            }}
+                        />
+                    </label>
+                    {outlineFonts.length > 0 && (
+                        <span className="asset-list">
+                            {outlineFonts.map((font) => font.name).join(', ')}
+                            <button type="button" className="link-button" onClick={() => setOutlineFonts([])}>
+                                Clear
+                            </button>
+                        </span>
+                    )}
+                </div>
+
+                <div className="asset-row">
+                    <label className="asset-picker">
+                        <span>Images</span>
+                        <select
+                            value={imageEncoding.format}
+                            onChange={(event) => setImageEncoding({ ...imageEncoding, format: event.target.value as ImageEncoding['format'] })}
+                        >
+                            <option value="original">Original format</option>
+                            <option value="webp">WebP</option>
+                            <option value="jpeg">JPEG</option>
+                        </select>
+                    </label>
+                    <label className="asset-picker">
+                        <span>Quality</span>
+                        <input
+                            type="number"
+                            min={0.1}
+                            max={1}
+                            step={0.05}
+                            value={imageEncoding.quality}
+                            disabled={imageEncoding.format === 'original'}
+                            onChange={(event) => setImageEncoding({ ...imageEncoding, quality: Number(event.target.value) || 0.85 })}
+                        />
+                    </label>
+                    <label className="asset-picker">
+                        <span>Max pixel density</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={4}
+                            step={0.5}
+                            value={imageEncoding.pixelRatio}
+                            onChange={(event) => setImageEncoding({ ...imageEncoding, pixelRatio: Number(event.target.value) || 2 })}
+                        />
+                    </label>
+                </div>
+
                 <div className="controls">
                     <label className="checkbox">
                         <input
@@ -348,6 +530,14 @@ const App = () => {
                         />
                         <span>Show SVG preview</span>
                     </label>
+                    <label className="checkbox">
+                        <input type="checkbox" checked={embedFonts} onChange={(event) => setEmbedFonts(event.target.checked)} />
+                        <span>Embed web fonts</span>
+                    </label>
+                    <label className="checkbox">
+                        <input type="checkbox" checked={textAsPaths} onChange={(event) => setTextAsPaths(event.target.checked)} />
+                        <span>Text as paths</span>
+                    </label>
                     <div className="button-row">
                         <button
                             type="button"
@@ -384,6 +574,39 @@ const App = () => {
                     <div className="preview" dangerouslySetInnerHTML={{ __html: svgOutput }} />
                 )}
 
+                {fontManifest && fontManifest.missing.length > 0 && (
+                    <div className="notice-banner">
+                        Fonts not embedded and not installed locally:{' '}
+                        {fontManifest.missing.map((face) => `${face.family} ${face.weight}${face.style === 'italic' ? ' italic' : ''}`).join(', ')}
+                    </div>
+                )}
+
+                {svgOutput && imageReport && (
+                    <div className={`size-report${svgBytes > SVG_SIZE_BUDGET_BYTES ? ' over-budget' : ''}`}>
+                        <p>
+                            SVG {formatBytes(svgBytes)} of {formatBytes(SVG_SIZE_BUDGET_BYTES)} budget; images{' '}
+                            {formatBytes(imageReport.embeddedBytes)} for {imageReport.images.length} unique of {imageReport.uses} uses
+                            {imageReport.originalBytes > 0 && ` (sources ${formatBytes(imageReport.originalBytes)})`}
+                        </p>
+                        {imageReport.images.length > 0 && (
+                            <ul>
+                                {[...imageReport.images]
+                                    .sort((a, b) => b.embeddedBytes - a.embeddedBytes)
+                                    .map((image) => (
+                                        <li key={image.source}>
+                                            <span className="size-report-source">{image.source.startsWith('data:') ? 'inline data' : image.source}</span>
+                                            <span>
+                                                {image.width && image.height ? `${image.width}×${image.height}` : 'unknown size'}
+                                                {image.mimeType ? `, ${image.mimeType.replace('image/', '')}` : ', linked'}
+                                                {image.uses > 1 ? `, ${image.uses} uses` : ''} — {formatBytes(image.embeddedBytes)}
+                                            </span>
+                                        </li>
+                                    ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
                 {errorMessage && <div className="error-banner">{errorMessage}</div>}
             </div>
 
@@ -0,0 +1,398 @@
+// A color resolved to 8-bit sRGB channels, alpha in 0..1
+export type SrgbColor = {
+    r: number;
+    g: number;
+    b: number;
+    alpha: number;
+};
+
+type Vector3 = [number, number, number];
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+// CSS Color 4 named colors
+const NAMED_COLORS = new Map<string, string>(Object.entries({
+    aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+    beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+    blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+    chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+    cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+    darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+    darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+    darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+    deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+    firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+    ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+    greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+    indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+    lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+    lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+    lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+    lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+    magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+    mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+    mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+    navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+    orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+    paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+    pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+    red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+    sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+    skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+    springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+    tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+    whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+}));
+
+// Linear-light RGB spaces to CIE XYZ, relative to D65 except ProPhoto (D50)
+const XYZ_TO_SRGB: Matrix3 = [
+    [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+    [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+    [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+const DISPLAY_P3_TO_XYZ: Matrix3 = [
+    [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+    [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+    [0, 0.04511338185890264, 1.043944368900976],
+];
+const A98_RGB_TO_XYZ: Matrix3 = [
+    [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+    [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+    [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+const REC2020_TO_XYZ: Matrix3 = [
+    [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+    [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+    [0, 0.028072693049087428, 1.060985057710791],
+];
+const PROPHOTO_TO_XYZ_D50: Matrix3 = [
+    [0.7977604896723027, 0.13518583717574031, 0.0313493495815248],
+    [0.2880711282292934, 0.7118432178101014, 0.00008565396060525902],
+    [0, 0, 0.8251046025104601],
+];
+// Bradford chromatic adaptation
+const D50_TO_D65: Matrix3 = [
+    [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+    [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+    [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+const D50_WHITE: Vector3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+// Oklab through its LMS cone space, to and from linear sRGB
+const OKLAB_TO_LMS: Matrix3 = [
+    [1, 0.3963377774, 0.2158037573],
+    [1, -0.1055613458, -0.0638541728],
+    [1, -0.0894841775, -1.291485548],
+];
+const LMS_TO_SRGB: Matrix3 = [
+    [4.0767416621, -3.3077115913, 0.2309699292],
+    [-1.2684380046, 2.6097574011, -0.3413193965],
+    [-0.0041960863, -0.7034186147, 1.707614701],
+];
+const SRGB_TO_LMS: Matrix3 = [
+    [0.4122214708, 0.5363137922, 0.0514459929],
+    [0.2119034982, 0.6806995451, 0.1073969566],
+    [0.0883024619, 0.2817188376, 0.6299787005],
+];
+const LMS_TO_OKLAB: Matrix3 = [
+    [0.2104542553, 0.793617785, -0.0040720468],
+    [1.9779984951, -2.428592205, 0.4505937099],
+    [0.0259040371, 0.7827717662, -0.808675766],
+];
+
+// CSS Color 4 gamut mapping: the just-noticeable difference in Oklab and the chroma search precision
+const GAMUT_JND = 0.02;
+const GAMUT_EPSILON = 0.0001;
+
+// Parse any CSS Color 4 value browsers report or authors write: hex, named colors, rgb()/hsl()/hwb()
+// in legacy or space-separated syntax, lab()/lch()/oklab()/oklch() and color(). Colors outside
+// sRGB are gamut mapped by reducing Oklch chroma, as CSS specifies. Null for anything else,
+// including currentcolor and system colors.
+export const parseCssColor = (value: string): SrgbColor | null => {
+    const trimmed = value.trim().toLowerCase();
+    if (trimmed === 'transparent') {
+        return { r: 0, g: 0, b: 0, alpha: 0 };
+    }
+    const hex = trimmed.startsWith('#') ? trimmed.slice(1) : NAMED_COLORS.get(trimmed);
+    if (hex !== undefined) {
+        return parseHex(hex);
+    }
+
+    const match = trimmed.match(/^([a-z]+)\((.*)\)$/);
+    if (!match) {
+        return null;
+    }
+    const args = splitColorArgs(match[2]);
+    if (!args) {
+        return null;
+    }
+    const linear = toLinearSrgb(match[1], args.channels);
+    if (!linear) {
+        return null;
+    }
+    const alpha = args.alpha === null ? 1 : parseComponent(args.alpha, 1);
+    if (alpha === null) {
+        return null;
+    }
+    const [r, g, b] = gamutMap(linear).map((channel) => Math.round(encodeSrgb(channel) * 255));
+    return { r, g, b, alpha: Math.min(1, Math.max(0, alpha)) };
+};
+
+const parseHex = (hex: string): SrgbColor | null => {
+    if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) {
+        return null;
+    }
+    const full = hex.length <= 4 ? Array.from(hex, (char) => char + char).join('') : hex;
+    const channel = (index: number) => parseInt(full.slice(index * 2, index * 2 + 2), 16);
+    return { r: channel(0), g: channel(1), b: channel(2), alpha: full.length === 8 ? channel(3) / 255 : 1 };
+};
+
+// Both `rgb(1, 2, 3, 0.5)` and `rgb(1 2 3 / 50%)`; color() keeps its color space as the first channel
+const splitColorArgs = (input: string): { channels: string[]; alpha: string | null } | null => {
+    if (input.includes(',')) {
+        const parts = input.split(',').map((part) => part.trim());
+        return parts.length === 3 || parts.length === 4 ? { channels: parts.slice(0, 3), alpha: parts[3] ?? null } : null;
+    }
+    const [main, alpha, ...rest] = input.split('/').map((part) => part.trim());
+    if (rest.length || alpha === '') {
+        return null;
+    }
+    return { channels: main.split(/\s+/).filter(Boolean), alpha: alpha ?? null };
+};
+
+// A number, or a percentage of `percentReference`; `none` counts as zero
+const parseComponent = (token: string, percentReference: number): number | null => {
+    if (token === 'none') {
+        return 0;
+    }
+    const match = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/);
+    if (!match) {
+        return null;
+    }
+    const value = parseFloat(match[1]);
+    return match[2] ? (value / 100) * percentReference : value;
+};
+
+const parseHue = (token: string): number | null => {
+    if (token === 'none') {
+        return 0;
+    }
+    const match = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|grad|rad|turn)?$/);
+    if (!match) {
+        return null;
+    }
+    const value = parseFloat(match[1]);
+    switch (match[2]) {
+        case 'grad':
+            return value * 0.9;
+        case 'rad':
+            return (value * 180) / Math.PI;
+        case 'turn':
+            return value * 360;
+        default:
+            return value;
+    }
+};
+
+// Each color function resolved to linear-light sRGB, possibly outside 0..1
+const toLinearSrgb = (name: string, channels: string[]): Vector3 | null => {
+    if (name === 'color') {
+        return parseColorFunction(channels);
+    }
+    if (channels.length !== 3) {
+        return null;
+    }
+    const [first, second, third] = channels;
+
+    switch (name) {
+        case 'rgb':
+        case 'rgba': {
+            const rgb = channels.map((channel) => parseComponent(channel, 255));
+            return rgb.every((channel) => channel !== null) ? (rgb.map((channel) => decodeSrgb(channel! / 255)) as Vector3) : null;
+        }
+        case 'hsl':
+        case 'hsla':
+        case 'hwb': {
+            const hue = parseHue(first);
+            const a = parseComponent(second, 100);
+            const b = parseComponent(third, 100);
+            if (hue === null || a === null || b === null) {
+                return null;
+            }
+            const rgb = name === 'hwb' ? hwbToSrgb(hue, a / 100, b / 100) : hslToSrgb(hue, a / 100, b / 100);
+            return rgb.map(decodeSrgb) as Vector3;
+        }
+        case 'lab':
+        case 'oklab': {
+            const ok = name === 'oklab';
+            const lightness = parseComponent(first, ok ? 1 : 100);
+            const a = parseComponent(second, ok ? 0.4 : 125);
+            const b = parseComponent(third, ok ? 0.4 : 125);
+            if (lightness === null || a === null || b === null) {
+                return null;
+            }
+            return ok ? oklabToLinearSrgb([lightness, a, b]) : labToLinearSrgb([lightness, a, b]);
+        }
+        case 'lch':
+        case 'oklch': {
+            const ok = name === 'oklch';
+            const lightness = parseComponent(first, ok ? 1 : 100);
+            const chroma = parseComponent(second, ok ? 0.4 : 150);
+            const hue = parseHue(third);
+            if (lightness === null || chroma === null || hue === null) {
+                return null;
+            }
+            const lab = lchToLab([lightness, Math.max(chroma, 0), hue]);
+            return ok ? oklabToLinearSrgb(lab) : labToLinearSrgb(lab);
+        }
+        default:
+            return null;
+    }
+};
+
+// color(<space> c1 c2 c3) for the predefined RGB and XYZ spaces
+const parseColorFunction = ([space, ...components]: string[]): Vector3 | null => {
+    if (components.length !== 3) {
+        return null;
+    }
+    const values = components.map((component) => parseComponent(component, 1));
+    if (values.some((value) => value === null)) {
+        return null;
+    }
+    const [a, b, c] = values as number[];
+
+    switch (space) {
+        case 'srgb':
+            return [decodeSrgb(a), decodeSrgb(b), decodeSrgb(c)];
+        case 'srgb-linear':
+            return [a, b, c];
+        case 'display-p3':
+            return multiply(XYZ_TO_SRGB, multiply(DISPLAY_P3_TO_XYZ, [decodeSrgb(a), decodeSrgb(b), decodeSrgb(c)]));
+        case 'a98-rgb': {
+            const decode = (channel: number) => Math.sign(channel) * Math.abs(channel) ** (563 / 256);
+            return multiply(XYZ_TO_SRGB, multiply(A98_RGB_TO_XYZ, [decode(a), decode(b), decode(c)]));
+        }
+        case 'prophoto-rgb': {
+            const decode = (channel: number) => (Math.abs(channel) <= 16 / 512 ? channel / 16 : Math.sign(channel) * Math.abs(channel) ** 1.8);
+            return multiply(XYZ_TO_SRGB, multiply(D50_TO_D65, multiply(PROPHOTO_TO_XYZ_D50, [decode(a), decode(b), decode(c)])));
+        }
+        case 'rec2020': {
+            const alpha = 1.09929682680944;
+            const beta = 0.018053968510807;
+            const decode = (channel: number) =>
+                Math.abs(channel) < beta * 4.5 ? channel / 4.5 : Math.sign(channel) * ((Math.abs(channel) + alpha - 1) / alpha) ** (1 / 0.45);
+            return multiply(XYZ_TO_SRGB, multiply(REC2020_TO_XYZ, [decode(a), decode(b), decode(c)]));
+        }
+        case 'xyz':
+        case 'xyz-d65':
+            return multiply(XYZ_TO_SRGB, [a, b, c]);
+        case 'xyz-d50':
+            return multiply(XYZ_TO_SRGB, multiply(D50_TO_D65, [a, b, c]));
+        default:
+            return null;
+    }
+};
+
+// Gamma-encoded sRGB in 0..1
+const hslToSrgb = (hue: number, saturation: number, lightness: number): Vector3 => {
+    const h = (((hue % 360) + 360) % 360) / 30;
+    const chroma = Math.min(Math.max(saturation, 0), 1) * Math.min(lightness, 1 - lightness);
+    const channel = (n: number) => {
+        const k = (n + h) % 12;
+        return lightness - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+    return [channel(0), channel(8), channel(4)];
+};
+
+const hwbToSrgb = (hue: number, whiteness: number, blackness: number): Vector3 => {
+    if (whiteness + blackness >= 1) {
+        const gray = whiteness / (whiteness + blackness);
+        return [gray, gray, gray];
+    }
+    return hslToSrgb(hue, 1, 0.5).map((channel) => channel * (1 - whiteness - blackness) + whiteness) as Vector3;
+};
+
+const lchToLab = ([lightness, chroma, hue]: Vector3): Vector3 => {
+    const radians = (hue * Math.PI) / 180;
+    return [lightness, chroma * Math.cos(radians), chroma * Math.sin(radians)];
+};
+
+// CIE Lab is relative to D50
+const labToLinearSrgb = ([lightness, a, b]: Vector3): Vector3 => {
+    const kappa = 24389 / 27;
+    const epsilon = 216 / 24389;
+    const fy = (lightness + 16) / 116;
+    const fx = a / 500 + fy;
+    const fz = fy - b / 200;
+    const x = fx ** 3 > epsilon ? fx ** 3 : (116 * fx - 16) / kappa;
+    const y = lightness > kappa * epsilon ? fy ** 3 : lightness / kappa;
+    const z = fz ** 3 > epsilon ? fz ** 3 : (116 * fz - 16) / kappa;
+    const xyz: Vector3 = [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+    return multiply(XYZ_TO_SRGB, multiply(D50_TO_D65, xyz));
+};
+
+const oklabToLinearSrgb = (lab: Vector3): Vector3 => multiply(LMS_TO_SRGB, multiply(OKLAB_TO_LMS, lab).map((channel) => channel ** 3) as Vector3);
+
+const linearSrgbToOklab = (rgb: Vector3): Vector3 => multiply(LMS_TO_OKLAB, multiply(SRGB_TO_LMS, rgb).map(Math.cbrt) as Vector3);
+
+// Lower Oklch chroma until clipping the color changes it by less than a just-noticeable difference
+const gamutMap = (rgb: Vector3): Vector3 => {
+    const clip = (color: Vector3) => color.map((channel) => Math.min(1, Math.max(0, channel))) as Vector3;
+    const inGamut = (color: Vector3) => color.every((channel) => channel >= -GAMUT_EPSILON && channel <= 1 + GAMUT_EPSILON);
+    if (inGamut(rgb)) {
+        return clip(rgb);
+    }
+
+    const [lightness, a, b] = linearSrgbToOklab(rgb);
+    if (lightness >= 1) {
+        return [1, 1, 1];
+    }
+    if (lightness <= 0) {
+        return [0, 0, 0];
+    }
+    const hue = Math.atan2(b, a);
+    const withChroma = (chroma: number): Vector3 => oklabToLinearSrgb([lightness, chroma * Math.cos(hue), chroma * Math.sin(hue)]);
+    const deltaE = (from: Vector3, to: Vector3) => {
+        const [l1, a1, b1] = linearSrgbToOklab(from);
+        const [l2, a2, b2] = linearSrgbToOklab(to);
+        return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+    };
+
+    let clipped = clip(rgb);
+    if (deltaE(clipped, rgb) < GAMUT_JND) {
+        return clipped;
+    }
+    let min = 0;
+    let max = Math.hypot(a, b);
+    let minInGamut = true;
+    while (max - min > GAMUT_EPSILON) {
+        const chroma = (min + max) / 2;
+        const current = withChroma(chroma);
+        if (minInGamut && inGamut(current)) {
+            min = chroma;
+            continue;
+        }
+        clipped = clip(current);
+        const error = deltaE(clipped, current);
+        if (error < GAMUT_JND) {
+            if (GAMUT_JND - error < GAMUT_EPSILON) {
+                return clipped;
+            }
+            minInGamut = false;
+            min = chroma;
+        } else {
+            max = chroma;
+        }
+    }
+    return clipped;
+};
+
+// sRGB transfer function, extended to negative values as CSS does
+const decodeSrgb = (channel: number): number => {
+    const magnitude = Math.abs(channel);
+    return magnitude <= 0.04045 ? channel / 12.92 : Math.sign(channel) * ((magnitude + 0.055) / 1.055) ** 2.4;
+};
+
+const encodeSrgb = (channel: number): number => (channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055);
+
+const multiply = (matrix: Matrix3, [x, y, z]: Vector3): Vector3 =>
+    matrix.map(([a, b, c]) => a * x + b * y + c * z) as Vector3;
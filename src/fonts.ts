@@ -0,0 +1,437 @@
+// A family/weight/style combination used by captured text, with the characters it renders
+export type FontUsage = {
+    fontFamily: string; // Comma-separated family list as captured
+    fontWeight: number | string;
+    fontStyle: string;
+    text: string;
+};
+
+export type FontManifestEntry = {
+    family: string;
+    weight: number;
+    style: string;
+    embedded: boolean; // An @font-face source was inlined into the SVG
+    installedLocally: boolean; // The face resolves through local() on this machine
+    sources: string[]; // @font-face source URLs that cover the used characters
+};
+
+export type FontManifest = {
+    faces: FontManifestEntry[];
+    missing: FontManifestEntry[]; // Neither embedded nor installed locally
+};
+
+export type FontFaceSource = {
+    url: string;
+    format: string | null;
+};
+
+// A parsed @font-face rule with its sources resolved against the stylesheet that declared it
+export type FontFaceDescriptor = {
+    family: string;
+    weight: [number, number];
+    style: string;
+    unicodeRange: Array<[number, number]> | null;
+    sources: FontFaceSource[];
+};
+
+const GENERIC_FAMILIES = new Set([
+    'serif',
+    'sans-serif',
+    'monospace',
+    'cursive',
+    'fantasy',
+    'system-ui',
+    'ui-serif',
+    'ui-sans-serif',
+    'ui-monospace',
+    'ui-rounded',
+    'emoji',
+    'math',
+    'fangsong',
+    '-apple-system',
+    'blinkmacsystemfont',
+]);
+
+// Preferred order when a rule lists several formats
+const FORMAT_PRIORITY = ['woff2', 'woff', 'truetype', 'opentype'];
+
+// Cache for fetched font files, keyed by absolute URL
+const fontDataCache = new Map<string, Promise<Blob | null>>();
+
+// Build @font-face CSS with data-URI sources for every face the captured text uses. Only rules
+// whose unicode-range intersects the rendered characters are kept, so a family split into
+// latin/latin-ext/cyrillic files embeds just the files it needs.
+export const embedFontFaces = async (
+    usages: FontUsage[],
+    { embed, doc }: { embed: boolean; doc: Document },
+): Promise<{ css: string; manifest: FontManifest }> => {
+    const descriptors = collectFontFaceDescriptors(doc);
+    const faces = groupUsages(usages, descriptors);
+    const cssRules: string[] = [];
+    const entries: FontManifestEntry[] = [];
+
+    for (const face of faces) {
+        const matching = selectFontFaceRules(descriptors, face);
+        const sources = matching.map((descriptor) => pickSource(descriptor.sources)).filter((source): source is FontFaceSource => !!source);
+        let embedded = false;
+
+        if (embed) {
+            const results = await Promise.all(
+                matching.map(async (descriptor) => {
+                    const source = pickSource(descriptor.sources);
+                    const dataUri = source ? await fetchFontAsDataUri(source.url) : null;
+                    return dataUri && source ? createFontFaceRule(descriptor, dataUri, source.format) : null;
+                }),
+            );
+            const rules = results.filter((rule): rule is string => !!rule);
+            cssRules.push(...rules);
+            embedded = rules.length > 0;
+        }
+
+        const installedLocally = embedded ? false : await isInstalledLocally(face.family, face.weight, face.style);
+        entries.push({
+            family: face.family,
+            weight: face.weight,
+            style: face.style,
+            embedded,
+            installedLocally,
+            sources: sources.map((source) => source.url),
+        });
+    }
+
+    return {
+        css: cssRules.join('\n'),
+        manifest: {
+            faces: entries,
+            missing: entries.filter((entry) => !entry.embedded && !entry.installedLocally),
+        },
+    };
+};
+
+// Walk every readable stylesheet of the document (including @import, @media, @supports and @layer blocks)
+export const collectFontFaceDescriptors = (doc: Document): FontFaceDescriptor[] => {
+    const descriptors: FontFaceDescriptor[] = [];
+    const visited = new Set<CSSStyleSheet>();
+
+    const walkRules = (rules: CSSRuleList, baseUrl: string) => {
+        Array.from(rules).forEach((rule) => {
+            // Checked by rule type rather than instanceof, so rules of same-origin iframe documents match
+            if (rule.type === CSSRule.FONT_FACE_RULE) {
+                const descriptor = parseFontFaceRule(rule as CSSFontFaceRule, baseUrl);
+                if (descriptor) {
+                    descriptors.push(descriptor);
+                }
+            } else if (rule.type === CSSRule.IMPORT_RULE) {
+                const { styleSheet } = rule as CSSImportRule;
+                if (styleSheet) {
+                    walkSheet(styleSheet);
+                }
+            } else if ('cssRules' in rule) {
+                walkRules((rule as CSSGroupingRule).cssRules, baseUrl);
+            }
+        });
+    };
+
+    const walkSheet = (sheet: CSSStyleSheet) => {
+        if (visited.has(sheet)) {
+            return;
+        }
+        visited.add(sheet);
+        let rules: CSSRuleList;
+        try {
+            rules = sheet.cssRules;
+        } catch {
+            // Cross-origin stylesheets without CORS cannot be read
+            return;
+        }
+        walkRules(rules, sheet.href ?? doc.baseURI);
+    };
+
+    Array.from(doc.styleSheets).forEach(walkSheet);
+    return descriptors;
+};
+
+const parseFontFaceRule = (rule: CSSFontFaceRule, baseUrl: string): FontFaceDescriptor | null => {
+    const family = stripQuotes(rule.style.getPropertyValue('font-family'));
+    const src = rule.style.getPropertyValue('src');
+    if (!family || !src) {
+        return null;
+    }
+
+    const sources: FontFaceSource[] = [];
+    splitTopLevelCommas(src).forEach((entry) => {
+        const urlMatch = entry.match(/url\(\s*(['"]?)(.*?)\1\s*\)/);
+        if (!urlMatch) {
+            return;
+        }
+        const formatMatch = entry.match(/format\(\s*(['"]?)(.*?)\1\s*\)/);
+        try {
+            sources.push({ url: new URL(urlMatch[2], baseUrl).href, format: formatMatch ? formatMatch[2].toLowerCase() : null });
+        } catch {
+            // Unresolvable URL; skip this source
+        }
+    });
+
+    return {
+        family,
+        weight: parseWeightRange(rule.style.getPropertyValue('font-weight')),
+        style: normalizeFontStyle(rule.style.getPropertyValue('font-style')),
+        unicodeRange: parseUnicodeRange(rule.style.getPropertyValue('unicode-range')),
+        sources,
+    };
+};
+
+type UsedFace = {
+    family: string;
+    weight: number;
+    style: string;
+    codePoints: Set<number>;
+};
+
+// Resolve each usage to the first family in its list that is declared via @font-face (or the
+// first non-generic family), and merge usages of the same face.
+const groupUsages = (usages: FontUsage[], descriptors: FontFaceDescriptor[]): UsedFace[] => {
+    const declared = new Set(descriptors.map((descriptor) => descriptor.family.toLowerCase()));
+    const faces = new Map<string, UsedFace>();
+
+    usages.forEach((usage) => {
+        const families = splitFontFamilies(usage.fontFamily);
+        const family =
+            families.find((candidate) => declared.has(candidate.toLowerCase())) ??
+            families.find((candidate) => !GENERIC_FAMILIES.has(candidate.toLowerCase()));
+        if (!family) {
+            return;
+        }
+        const weight = normalizeFontWeight(usage.fontWeight);
+        const style = normalizeFontStyle(usage.fontStyle);
+        const key = `${family.toLowerCase()}|${weight}|${style}`;
+        const face = faces.get(key) ?? { family, weight, style, codePoints: new Set<number>() };
+        for (const char of usage.text) {
+            face.codePoints.add(char.codePointAt(0)!);
+        }
+        faces.set(key, face);
+    });
+
+    return Array.from(faces.values());
+};
+
+// CSS font matching, simplified: same family, matching style, then the rules whose weight range
+// contains the requested weight (or the closest weight when none does).
+export const selectFontFaceRules = (
+    descriptors: FontFaceDescriptor[],
+    face: { family: string; weight: number; style: string; codePoints?: Set<number> },
+): FontFaceDescriptor[] => {
+    const family = descriptors.filter((descriptor) => descriptor.family.toLowerCase() === face.family.toLowerCase());
+    if (!family.length) {
+        return [];
+    }
+    const styled = family.filter((descriptor) => descriptor.style === face.style);
+    const candidates = styled.length ? styled : family;
+
+    const distance = (descriptor: FontFaceDescriptor) => {
+        const [min, max] = descriptor.weight;
+        if (face.weight >= min && face.weight <= max) {
+            return 0;
+        }
+        return Math.min(Math.abs(face.weight - min), Math.abs(face.weight - max));
+    };
+    const best = Math.min(...candidates.map(distance));
+    const weighted = candidates.filter((descriptor) => distance(descriptor) === best);
+
+    const { codePoints } = face;
+    if (!codePoints?.size) {
+        return weighted;
+    }
+    return weighted.filter(
+        (descriptor) =>
+            !descriptor.unicodeRange ||
+            Array.from(codePoints).some((codePoint) => descriptor.unicodeRange!.some(([start, end]) => codePoint >= start && codePoint <= end)),
+    );
+};
+
+export const pickSource = (sources: FontFaceSource[]): FontFaceSource | null => {
+    if (!sources.length) {
+        return null;
+    }
+    const rank = (source: FontFaceSource) => {
+        const format = source.format ?? inferFormat(source.url);
+        const index = format ? FORMAT_PRIORITY.indexOf(format) : -1;
+        return index === -1 ? FORMAT_PRIORITY.length : index;
+    };
+    return [...sources].sort((a, b) => rank(a) - rank(b))[0];
+};
+
+const inferFormat = (url: string): string | null => {
+    const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+    switch (extension) {
+        case 'woff2':
+            return 'woff2';
+        case 'woff':
+            return 'woff';
+        case 'ttf':
+            return 'truetype';
+        case 'otf':
+            return 'opentype';
+        default:
+            return null;
+    }
+};
+
+const createFontFaceRule = (descriptor: FontFaceDescriptor, dataUri: string, format: string | null): string => {
+    const [min, max] = descriptor.weight;
+    const declarations = [
+        `font-family:"${descriptor.family.replace(/"/g, '\\"')}"`,
+        `font-style:${descriptor.style}`,
+        `font-weight:${min === max ? min : `${min} ${max}`}`,
+        `src:url(${dataUri})${format ? ` format("${format}")` : ''}`,
+    ];
+    if (descriptor.unicodeRange) {
+        declarations.push(`unicode-range:${descriptor.unicodeRange.map(formatUnicodeRange).join(',')}`);
+    }
+    return `@font-face{${declarations.join(';')}}`;
+};
+
+const fetchFontBlob = (url: string): Promise<Blob | null> => {
+    const cached = fontDataCache.get(url);
+    if (cached) {
+        return cached;
+    }
+
+    const promise = (async () => {
+        try {
+            const response = await fetch(url, { mode: 'cors' });
+            if (!response.ok) {
+                console.warn(`❌ Failed to fetch font: ${url} (${response.status})`);
+                return null;
+            }
+            return await response.blob();
+        } catch (error) {
+            console.warn(`❌ Error fetching font: ${url}`, error);
+            return null;
+        }
+    })();
+
+    fontDataCache.set(url, promise);
+    return promise;
+};
+
+export const fetchFontAsDataUri = async (url: string): Promise<string | null> => {
+    const blob = await fetchFontBlob(url);
+    if (!blob) {
+        return null;
+    }
+    return new Promise<string | null>((resolve) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => resolve(null);
+        reader.readAsDataURL(blob);
+    });
+};
+
+export const fetchFontBytes = async (url: string): Promise<Uint8Array | null> => {
+    const blob = await fetchFontBlob(url);
+    return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+};
+
+// local() matches installed faces by full or PostScript name, which for most families is the family name
+const isInstalledLocally = async (family: string, weight: number, style: string): Promise<boolean> => {
+    if (GENERIC_FAMILIES.has(family.toLowerCase())) {
+        return true;
+    }
+    if (typeof FontFace === 'undefined') {
+        return false;
+    }
+    try {
+        const face = new FontFace('html-to-svg-local-probe', `local("${family.replace(/"/g, '\\"')}")`, {
+            weight: String(weight),
+            style,
+        });
+        await face.load();
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const normalizeFontWeight = (value: number | string): number => {
+    const weight = String(value).trim().toLowerCase();
+    if (weight === 'bold' || weight === 'bolder') {
+        return 700;
+    }
+    if (weight === 'lighter') {
+        return 300;
+    }
+    const numeric = parseFloat(weight);
+    return Number.isNaN(numeric) ? 400 : numeric;
+};
+
+export const normalizeFontStyle = (value: string): string => {
+    const style = value.trim().toLowerCase();
+    return style.startsWith('italic') || style.startsWith('oblique') ? 'italic' : 'normal';
+};
+
+const parseWeightRange = (value: string): [number, number] => {
+    const parts = value.trim().split(/\s+/).filter(Boolean);
+    if (!parts.length || parts[0] === 'auto') {
+        return [1, 1000];
+    }
+    const min = normalizeFontWeight(parts[0]);
+    const max = parts[1] ? normalizeFontWeight(parts[1]) : min;
+    return [Math.min(min, max), Math.max(min, max)];
+};
+
+// Parse `U+0000-00FF, U+0131, U+4??` into inclusive code point ranges
+export const parseUnicodeRange = (value: string): Array<[number, number]> | null => {
+    if (!value.trim()) {
+        return null;
+    }
+    const ranges: Array<[number, number]> = [];
+    value.split(',').forEach((token) => {
+        const match = token.trim().match(/^u\+([0-9a-f?]+)(?:-([0-9a-f]+))?$/i);
+        if (!match) {
+            return;
+        }
+        if (match[2]) {
+            ranges.push([parseInt(match[1], 16), parseInt(match[2], 16)]);
+        } else if (match[1].includes('?')) {
+            ranges.push([parseInt(match[1].replace(/\?/g, '0'), 16), parseInt(match[1].replace(/\?/g, 'f'), 16)]);
+        } else {
+            const codePoint = parseInt(match[1], 16);
+            ranges.push([codePoint, codePoint]);
+        }
+    });
+    return ranges.length ? ranges : null;
+};
+
+const formatUnicodeRange = ([start, end]: [number, number]): string => {
+    const hex = (value: number) => value.toString(16).toUpperCase();
+    return start === end ? `U+${hex(start)}` : `U+${hex(start)}-${hex(end)}`;
+};
+
+// `"Inter", Arial, sans-serif` -> ['Inter', 'Arial', 'sans-serif']
+export const splitFontFamilies = (value: string): string[] => value.split(',').map(stripQuotes).filter(Boolean);
+
+const stripQuotes = (value: string): string => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+
+const splitTopLevelCommas = (value: string): string[] => {
+    const result: string[] = [];
+    let buffer = '';
+    let depth = 0;
+    for (const char of value) {
+        if (char === '(') {
+            depth += 1;
+        } else if (char === ')') {
+            depth = Math.max(depth - 1, 0);
+        }
+        if (char === ',' && depth === 0) {
+            result.push(buffer.trim());
+            buffer = '';
+            continue;
+        }
+        buffer += char;
+    }
+    if (buffer.trim()) {
+        result.push(buffer.trim());
+    }
+    return result;
+};
@@ -1,4 +1,25 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { parseCssColor } from './colors';
+import { embedFontFaces, type FontManifest, type FontUsage } from './fonts';
+import { detectIcon, resolveIcon, type IconProvider, type IconRequest } from './icons';
+import { encodeImage, type ImageEncoding, type ImageReport, type ImageReportEntry } from './images';
+import type { OutlineFontSource, TextOutliner } from './textOutlines';
+
+export type { FontManifest, FontManifestEntry } from './fonts';
+export type { ImageEncoding, ImageReport, ImageReportEntry } from './images';
+export type { OutlineFontSource } from './textOutlines';
+
+export {
+    createIconRegistry,
+    createIconRegistryFromJson,
+    createIconRegistryFromSprite,
+    type IconGlyph,
+    type IconProvider,
+    type IconRegistryOptions,
+    type IconRequest,
+    type IconSet,
+} from './icons';
+
 export type GradientStop = {
     color: string;
     opacity: number;
@@ -11,13 +32,64 @@ export type SolidFill = {
     opacity: number;
 };
 
+// Repeating gradients carry `period`: the fraction of the gradient line, ray or turn that one
+// repetition covers, with `stops` spanning a single repetition.
 export type LinearGradientFill = {
     kind: 'linear-gradient';
     angle: number;
     stops: GradientStop[];
+    period?: number;
+};
+
+export type RadialGradientFill = {
+    kind: 'radial-gradient';
+    cx: number; // Center relative to the box
+    cy: number;
+    rx: number; // Ending-shape radii; stop offsets are fractions of rx
+    ry: number;
+    stops: GradientStop[];
+    period?: number;
+};
+
+export type ConicGradientFill = {
+    kind: 'conic-gradient';
+    cx: number; // Center relative to the box
+    cy: number;
+    from: number; // Degrees clockwise from 12 o'clock
+    stops: GradientStop[]; // Offsets are fractions of a full turn
+    period?: number;
+};
+
+export type GradientFill = LinearGradientFill | RadialGradientFill | ConicGradientFill;
+
+export type Fill = SolidFill | GradientFill;
+
+export type BoxRect = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+};
+
+// A background-clip box with the corner radii it inherits from the border box
+export type BackgroundClip = {
+    rect: BoxRect;
+    radius: BorderRadius;
 };
 
-export type Fill = SolidFill | LinearGradientFill;
+export type BackgroundRepeat = 'repeat' | 'no-repeat' | 'space' | 'round';
+
+// One background-image layer. Rects are in root coordinates; size and position stay as computed
+// CSS because url() layers can only resolve them once the image's intrinsic size is known.
+export type BackgroundLayer = {
+    image: GradientFill | { kind: 'url'; url: string };
+    area: BoxRect; // background-origin box
+    clip: BackgroundClip;
+    size: string;
+    position: string;
+    repeatX: BackgroundRepeat;
+    repeatY: BackgroundRepeat;
+};
 
 export type BorderSide = {
     width: number;
@@ -33,11 +105,17 @@ export type BorderSet = {
     left: BorderSide;
 };
 
+// Horizontal and vertical radius of one elliptical corner; square when either is zero
+export type CornerRadius = {
+    x: number;
+    y: number;
+};
+
 export type BorderRadius = {
-    topLeft: number;
-    topRight: number;
-    bottomRight: number;
-    bottomLeft: number;
+    topLeft: CornerRadius;
+    topRight: CornerRadius;
+    bottomRight: CornerRadius;
+    bottomLeft: CornerRadius;
 };
 
 export type BoxShadow = {
@@ -50,6 +128,45 @@ export type BoxShadow = {
     opacity: number;
 };
 
+// One CSS filter function. Amounts are fractions (1 = 100%), angles are degrees and the blur is
+// the Gaussian standard deviation in px.
+export type CssFilter =
+    | { kind: 'blur'; radius: number }
+    | { kind: 'brightness' | 'contrast' | 'grayscale' | 'invert' | 'opacity' | 'saturate' | 'sepia'; amount: number }
+    | { kind: 'hue-rotate'; angle: number }
+    | { kind: 'drop-shadow'; shadow: BoxShadow };
+
+export type BlendMode = (typeof BLEND_MODES)[number];
+
+// How a node takes part in its stacking context's painting order (CSS 2.1 appendix E)
+export type StackingInfo = {
+    zIndex: number; // 0 unless z-index applies (positioned boxes, flex and grid items)
+    context: boolean; // Establishes a stacking context
+    positioned: boolean; // position other than static
+    float: boolean;
+    inline: boolean; // inline-level: inline, inline-block, inline-flex, ...
+};
+
+// CSS clip-path as path data relative to the top-left corner of its reference box at x/y
+export type ClipShape = {
+    x: number;
+    y: number;
+    d: string;
+    clipRule: 'nonzero' | 'evenodd';
+};
+
+// A styled slice of an inline formatting context, rendered as a <tspan>.
+export type TextRun = {
+    content: string;
+    color: string;
+    opacity: number;
+    fontFamily: string;
+    fontSize: number;
+    fontWeight: number | string;
+    fontStyle: string;
+    letterSpacing: number;
+};
+
 export type TextPayload = {
     content: string;
     color: string;
@@ -61,32 +178,93 @@ export type TextPayload = {
     letterSpacing: number;
     lineHeight: number;
     textAnchor: 'start' | 'middle' | 'end';
+    lines?: TextLine[]; // Visual lines in paint order; `content` joins them with newlines
+    outlines?: TextOutline[]; // Set in 'paths' text mode when every run resolved to a font file
+    shadows?: BoxShadow[]; // text-shadow, topmost first like box-shadow
+};
+
+// One visual line of a paragraph, rendered as a <tspan x dy> inside the shared <text>.
+export type TextLine = {
+    content: string;
+    x: number; // Anchor x, already adjusted for text-anchor
+    y: number; // Alphabetic baseline
+    width: number;
+    runs?: TextRun[]; // Mixed-style content; joined run contents equal `content`
+    decorations?: TextDecorationStroke[];
+};
+
+// A text-decoration as declared by the element that draws it
+export type TextDecoration = {
+    line: 'underline' | 'overline' | 'line-through';
+    style: 'solid' | 'double' | 'dotted' | 'dashed' | 'wavy';
+    color: string;
+    opacity: number;
+    thickness: number | null; // px; null for the font's default
+    underlineOffset: number | null; // text-underline-offset in px; null for the font's default
+};
+
+// One decoration line across part of a text line, in root coordinates; y is the stroke's center.
+export type TextDecorationStroke = {
+    line: TextDecoration['line'];
+    style: TextDecoration['style'];
+    color: string;
+    opacity: number;
+    x1: number;
+    x2: number;
+    y: number;
+    thickness: number;
+};
+
+// Glyph outlines of one run in root coordinates, filled with the run's color.
+export type TextOutline = {
+    d: string;
+    color: string;
+    opacity: number;
+};
+
+// 2D affine matrix in SVG `matrix(a b c d e f)` order.
+export type TransformMatrix = {
+    a: number;
+    b: number;
+    c: number;
+    d: number;
+    e: number;
+    f: number;
 };
 
 export type BaseNode = {
     id: string;
-    kind: 'box' | 'text' | 'icon' | 'image';
-    x: number;
+    kind: 'box' | 'text' | 'icon' | 'image' | 'svg';
+    x: number; // Untransformed layout position
     y: number;
-    width: number;
+    width: number; // Untransformed layout size
     height: number;
     opacity: number;
     className?: string;
+    transform?: TransformMatrix; // CSS transform in root coordinates, transform-origin already applied
+    filters?: CssFilter[]; // CSS `filter`, applied in order to the node and its descendants
+    blendMode?: BlendMode; // CSS `mix-blend-mode` other than normal
+    clipPath?: ClipShape; // CSS `clip-path` basic shape or reference box
+    mask?: BackgroundLayer[]; // CSS `mask-image` layers, bottom to top, with their mask-* geometry
+    stacking?: StackingInfo; // Missing for text and synthesized shapes, which paint as inline content
 };
 
 export type BoxNode = BaseNode & {
     kind: 'box';
     tagName: string;
     background: Fill | null;
-    backgroundImage?: string; // URL for background-image
-    backgroundSize?: 'contain' | 'cover' | 'auto'; // object-fit equivalent
+    backgroundClip?: BackgroundClip; // Set when background-color is clipped to the padding or content box
+    backgroundLayers?: BackgroundLayer[]; // Painted bottom to top over the background color
     borderRadius: BorderRadius;
     borders: BorderSet | null;
     shadows: BoxShadow[];
+    backdropFilters?: CssFilter[]; // CSS `backdrop-filter`, applied to what is painted behind the box
+    isolated?: boolean; // Stacking context with blending descendants; they must not blend past it
     overflowHidden?: boolean;
     children: SimpleNode[];
 };
 
+// x/y hold the first line's anchor and baseline; width/height cover the whole paragraph box.
 export type TextNode = BaseNode & {
     kind: 'text';
     tagName: string;
@@ -101,6 +279,9 @@ export type IconNode = BaseNode & {
     color: string;
     svgPath: string;
     viewBox: string;
+    markup?: string; // Multi-element glyph content, used instead of svgPath
+    weightStroke?: number; // Outline stroke (viewBox units) emulating a heavier wght than the glyph was drawn at
+    missing?: boolean; // Placeholder for a glyph no icon provider could resolve
     children: [];
 };
 
@@ -109,94 +290,127 @@ export type ImageNode = BaseNode & {
     tagName: string;
     src: string;
     alt?: string;
-    objectFit: 'contain' | 'cover' | 'fill' | 'none';
+    objectFit: 'contain' | 'cover' | 'fill' | 'none' | 'scale-down';
+    objectPosition?: string; // CSS <position>, resolved against the box at render time
+    naturalWidth?: number; // Intrinsic size; without it object-fit falls back to preserveAspectRatio
+    naturalHeight?: number;
     borderRadius: BorderRadius;
     children: [];
 };
 
-export type SimpleNode = BoxNode | TextNode | IconNode | ImageNode;
+// Inline <svg> subtree passed through as serialized markup, positioned via x/y/width/height.
+export type SvgNode = BaseNode & {
+    kind: 'svg';
+    tagName: string;
+    markup: string;
+    children: [];
+};
 
-const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'META', 'TITLE', 'LINK', 'NOSCRIPT', 'INPUT', 'TEXTAREA', 'SELECT', 'OPTION']);
+export type SimpleNode = BoxNode | TextNode | IconNode | ImageNode | SvgNode;
+
+// mix-blend-mode keywords shared by CSS, SVG and Figma's layer blend modes
+const BLEND_MODES = [
+    'multiply',
+    'screen',
+    'overlay',
+    'darken',
+    'lighten',
+    'color-dodge',
+    'color-burn',
+    'hard-light',
+    'soft-light',
+    'difference',
+    'exclusion',
+    'hue',
+    'saturation',
+    'color',
+    'luminosity',
+] as const;
+
+const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'META', 'TITLE', 'LINK', 'NOSCRIPT', 'OPTION']);
+const FORM_CONTROL_TAGS = new Set(['INPUT', 'TEXTAREA', 'SELECT']);
 
 const PX_REGEX = /(-?\d+(?:\.\d+)?)px/;
-const RGBA_REGEX = /rgba?\((\d+)\s*,\s*(\d+)\s*,\s*(\d+)(?:\s*,\s*([\d.]+))?\)/i;
-const HEX_REGEX = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
-const SHADOW_COLOR_REGEX = /(rgba?\([^)]*\)|hsla?\([^)]*\)|#[0-9a-f]{3,8}|[a-z]+)$/i;
 
 let nodeCounter = 0;
 
-// Cache for converted images to avoid duplicate fetches
-const imageCache = new Map<string, Promise<string>>();
+// ::before/::after stand-ins are created as <svg-pseudo-before>/<svg-pseudo-after>
+const PSEUDO_PROBE_TAG_PREFIX = 'svg-pseudo-';
+// Hosts list the pseudo-elements their probes stand in for, e.g. data-svg-pseudo-host="before after"
+const PSEUDO_SUPPRESS_CSS =
+    '[data-svg-pseudo-host~="before"]::before, [data-svg-pseudo-host~="after"]::after { content: none !important; }';
+
+const imageSizeCache = new Map<string, Promise<{ width: number; height: number } | null>>();
 
 type RgbaColor = {
     color: string;
     opacity: number;
 };
 
+type FontMetrics = {
+    ascent: number;
+    descent: number;
+};
+
+// Font metrics per document (a same-origin iframe has its own web fonts), keyed by CSS font
+// shorthand and measured once per family/size/weight/style
+const fontMetricsCache = new WeakMap<Document, Map<string, FontMetrics>>();
+
 type RenderContext = {
     defs: string[];
     gradientIndex: number;
     filterIndex: number;
-    imagePromises: Promise<void>[];
+    images: Map<string, ImageUse>; // Every image source painted, embedded once after rendering
+    backdrops: Map<BoxNode, BoxNode>; // What each backdrop-filtered box sees behind it
+    frameReports: Map<string, ImageReport>; // Images embedded in captured iframes, keyed by the frame's SVG source
 };
 
-type HtmlToSvgOptions = {
-    inlineCss?: string;
+// One image source and the largest box it is painted into, in CSS px
+type ImageUse = {
+    id: string;
+    uses: number;
+    width: number;
+    height: number;
+    intrinsic: { width: number; height: number } | null;
 };
 
-// Convert image URL to base64 data URI
-const convertImageToBase64 = async (url: string): Promise<string> => {
-    // Check cache first
-    if (imageCache.has(url)) {
-        return imageCache.get(url)!;
-    }
-
-    const promise = (async () => {
-        try {
-            console.log(`🖼️ Fetching image: ${url.substring(0, 60)}...`);
-            // Fetch the image
-            const response = await fetch(url);
-            if (!response.ok) {
-                console.warn(`❌ Failed to fetch image: ${url} (${response.status})`);
-                return url; // Return original URL as fallback
-            }
-
-            // Get the blob
-            const blob = await response.blob();
-            console.log(`✅ Fetched ${blob.size} bytes, converting to base64...`);
-
-            // Convert to base64
-            return new Promise<string>((resolve, reject) => {
-                const reader = new FileReader();
-                reader.onloadend = () => {
-                    const base64 = reader.result as string;
-                    console.log(`✅ Converted to base64 (${base64.length} chars)`);
-                    resolve(base64);
-                };
-                reader.onerror = () => {
-                    console.warn(`❌ Failed to convert image to base64: ${url}`);
-                    resolve(url); // Return original URL as fallback
-                };
-                reader.readAsDataURL(blob);
-            });
-        } catch (error) {
-            console.warn(`❌ Error converting image to base64: ${url}`, error);
-            return url; // Return original URL as fallback
-        }
-    })();
+type CaptureContext = {
+    iconProviders: IconProvider[];
+    options: HtmlToSvgOptions; // Passed on to captures of same-origin iframes
+    pending: Array<Promise<void>>; // Image sources still being produced, awaited before rendering
+    pseudoSuppressStyle: HTMLStyleElement | null; // Shared by all pseudo-element probes, removed after capture
+    frameReports: Map<string, ImageReport>; // Image reports of captured iframes, keyed by the frame's SVG source
+    textDecorations: Map<Element, TextDecoration[]>; // Decorations each element's text is drawn with, resolved once
+};
 
-    imageCache.set(url, promise);
-    return promise;
+export type HtmlToSvgOptions = {
+    inlineCss?: string;
+    iconProviders?: IconProvider[]; // Tried in order before the built-in Material Symbols table
+    embedFonts?: boolean; // Inline the @font-face files used by captured text as data URIs
+    onFontManifest?: (manifest: FontManifest) => void; // Receives used faces and which ones are missing
+    textMode?: 'text' | 'paths'; // 'paths' converts text to glyph outlines so no fonts are needed to view it
+    outlineFonts?: OutlineFontSource[]; // Font files tried before the page's @font-face sources in 'paths' mode
+    imageEncoding?: Partial<ImageEncoding>; // Defaults to the original format at 2 pixels per CSS px
+    onImageReport?: (report: ImageReport) => void; // Receives the embedded size of every image source
 };
 
-// Convert image URL to base64 if it's an external URL
-const maybeConvertImageUrl = async (url: string): Promise<string> => {
-    // Only convert external URLs (http/https)
-    if (url.startsWith('http://') || url.startsWith('https://')) {
-        return convertImageToBase64(url);
+const DEFAULT_IMAGE_ENCODING: ImageEncoding = { format: 'original', quality: 0.85, pixelRatio: 2 };
+
+// Natural size of a background image; null when it has none (e.g. SVG without width/height)
+const loadImageSize = (src: string): Promise<{ width: number; height: number } | null> => {
+    if (imageSizeCache.has(src)) {
+        return imageSizeCache.get(src)!;
     }
-    // For data URIs and relative URLs, return as-is
-    return url;
+    const promise = new Promise<{ width: number; height: number } | null>((resolve) => {
+        const image = new Image();
+        image.onload = () => resolve(image.naturalWidth && image.naturalHeight ? { width: image.naturalWidth, height: image.naturalHeight } : null);
+        image.onerror = () => resolve(null);
+        image.src = src;
+    });
+    imageSizeCache.set(src, promise);
+    return promise;
 };
 
 export const htmlToSvg = async (rootElement: HTMLElement, options: HtmlToSvgOptions = {}): Promise<string> => {
@@ -208,18 +422,57 @@ export const htmlToSvg = async (rootElement: HTMLElement, options: HtmlToSvgOpti
     if (rootRect.width === 0 || rootRect.height === 0) {
         throw new Error('Root element has no measurable layout.');
     }
+    return renderElementToSvg(rootElement, rootRect, options);
+};
 
-    const simpleTree = createNodeFromElement(rootElement, rootRect, true);
+// Capture and render with `rootRect` as the SVG viewport; iframe documents pass their own
+// viewport so only the visible, scrolled part of the frame is drawn
+const renderElementToSvg = async (rootElement: HTMLElement, rootRect: DOMRect, options: HtmlToSvgOptions): Promise<string> => {
+    await decodeImages(rootElement);
+    const captureContext: CaptureContext = { iconProviders: options.iconProviders ?? [], options, pending: [],
+        pseudoSuppressStyle: null,
+        frameReports: new Map(),
+        textDecorations: new Map(),
+    };
+    let simpleTree: SimpleNode | null;
+    try {
+        simpleTree = createNodeFromElement(rootElement, rootRect, captureContext, true);
+    } finally {
+        captureContext.pseudoSuppressStyle?.remove();
+    }
     if (!simpleTree) {
         throw new Error('Unable to capture layout from the provided HTML.');
     }
+    if (simpleTree.kind === 'box') {
+        applyPaintOrder(simpleTree);
+    }
+    await Promise.all(captureContext.pending);
+
+    if (options.textMode === 'paths') {
+        // The font parser is only loaded when outlines are requested
+        const { createTextOutliner } = await import('./textOutlines');
+        await outlineTextNodes(simpleTree, createTextOutliner(options.outlineFonts, rootElement.ownerDocument));
+    }
 
-    const context: RenderContext = { defs: [], gradientIndex: 0, filterIndex: 0, imagePromises: [] };
+    const context: RenderContext = { defs: [], gradientIndex: 0, filterIndex: 0, images: new Map(),
+        backdrops: collectBackdrops(simpleTree),
+        frameReports: captureContext.frameReports,
+    };
     const content = await renderNode(simpleTree, context);
 
-    // Wait for all image conversions to complete
-    await Promise.all(context.imagePromises);
-    const cssBlock = options.inlineCss?.trim();
+    // Each source is fetched, downscaled and re-encoded once for all of its uses
+    const report = await embedImages(context, { ...DEFAULT_IMAGE_ENCODING, ...options.imageEncoding });
+    options.onImageReport?.(report);
+
+    let fontCss = '';
+    if (options.embedFonts || options.onFontManifest) {
+        const { css, manifest } = await embedFontFaces(collectFontUsages(simpleTree), { embed: !!options.embedFonts, doc: rootElement.ownerDocument });
+        fontCss = css;
+        options.onFontManifest?.(manifest);
+    }
+
+    // Embedded faces come last so they win over remote @font-face rules with the same descriptors
+    const cssBlock = [options.inlineCss?.trim(), fontCss].filter(Boolean).join('\n');
     const styleDef = cssBlock ? createStyleDef(cssBlock) : null;
     const defsEntries = [...context.defs];
     if (styleDef) {
@@ -232,175 +485,993 @@ export const htmlToSvg = async (rootElement: HTMLElement, options: HtmlToSvgOpti
     return `<?xml version="1.0" encoding="UTF-8"?><svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="presentation">${defsContent}${content}</svg>`;
 };
 
+// Every family/weight/style the text layers render, with the characters they need
+const collectFontUsages = (node: SimpleNode): FontUsage[] => {
+    if (node.kind === 'text' && !node.text.outlines) {
+        const { text } = node;
+        const base = { fontFamily: text.fontFamily, fontWeight: text.fontWeight, fontStyle: text.fontStyle };
+        // Styled runs name their own face; only text without runs is set in the layer's base face
+        const lines: TextLine[] = text.lines?.length ? text.lines : [{ content: text.content, x: node.x, y: node.y, width: node.width }];
+        return lines.flatMap((line) =>
+            line.runs?.length
+                ? line.runs.map((run) => ({ fontFamily: run.fontFamily, fontWeight: run.fontWeight, fontStyle: run.fontStyle, text: run.content }))
+                : [{ ...base, text: line.content }],
+        );
+    }
+    if (node.kind === 'box') {
+        return node.children.flatMap(collectFontUsages);
+    }
+    return [];
+};
+
+// Lay out every text layer with its font files and store the glyph outlines on the payload.
+// Layers whose fonts cannot be resolved stay live text.
+const outlineTextNodes = async (node: SimpleNode, outliner: TextOutliner): Promise<void> => {
+    if (node.kind === 'box') {
+        await Promise.all(node.children.map((child) => outlineTextNodes(child, outliner)));
+        return;
+    }
+    if (node.kind !== 'text') {
+        return;
+    }
+
+    const { text } = node;
+    const lines: TextLine[] = text.lines?.length ? text.lines : [{ content: text.content, x: node.x, y: node.y, width: node.width }];
+    const outlines: TextOutline[] = [];
+    for (const line of lines) {
+        const runs: TextRun[] = line.runs?.length ? line.runs : [{ ...text, content: line.content }];
+        const layouts = await Promise.all(runs.map((run) => outliner.layoutRun(run)));
+        if (layouts.some((layout) => !layout)) {
+            console.warn(`⚠️ No font file covers "${text.content.slice(0, 40)}" (${text.fontFamily}); keeping it as text`);
+            return;
+        }
+
+        // line.x is the text-anchor position, so shift by the measured advance
+        const advance = layouts.reduce((total, layout) => total + layout!.advance, 0);
+        let x = line.x;
+        if (text.textAnchor === 'middle') {
+            x -= advance / 2;
+        } else if (text.textAnchor === 'end') {
+            x -= advance;
+        }
+        layouts.forEach((layout, index) => {
+            const d = layout!.draw(x, line.y);
+            if (d) {
+                outlines.push({ d, color: runs[index].color, opacity: runs[index].opacity });
+            }
+            x += layout!.advance;
+        });
+    }
+    text.outlines = outlines;
+};
+
+// Painting phases within a stacking context, back to front
+const PAINT_RANK = { negative: 0, block: 1, float: 2, inline: 3, positioned: 4, positive: 5 } as const;
+
+const paintRank = ({ stacking }: SimpleNode): number => {
+    if (!stacking) {
+        return PAINT_RANK.inline;
+    }
+    if (stacking.context && stacking.zIndex < 0) {
+        return PAINT_RANK.negative;
+    }
+    if (stacking.context && stacking.zIndex > 0) {
+        return PAINT_RANK.positive;
+    }
+    // Stacking contexts without a z-index (opacity, transforms, ...) paint like positioned z-index 0
+    if (stacking.positioned || stacking.context) {
+        return PAINT_RANK.positioned;
+    }
+    if (stacking.float) {
+        return PAINT_RANK.float;
+    }
+    return stacking.inline ? PAINT_RANK.inline : PAINT_RANK.block;
+};
+
+// Put every box's children in CSS painting order (CSS 2.1 appendix E): negative z-index contexts,
+// in-flow blocks, floats, inline content, positioned boxes, then positive z-index contexts, each
+// group in tree order. Positioned descendants of plain boxes are lifted into the box that orders
+// them, so a z-indexed dropdown clears the siblings of its wrapper. Overflow clips keep theirs,
+// since lifting them out would escape the clip.
+const applyPaintOrder = (node: BoxNode): void => {
+    const members: SimpleNode[] = [];
+    const addMember = (child: SimpleNode) => {
+        members.push(child);
+        if (child.kind === 'box' && !child.stacking?.context && !child.overflowHidden) {
+            const lifted: SimpleNode[] = [];
+            liftLayeredDescendants(child, lifted);
+            lifted.forEach(addMember);
+        }
+    };
+    node.children.forEach(addMember);
+
+    const zOrder = (child: SimpleNode) => (child.stacking?.context ? child.stacking.zIndex : 0);
+    node.children = members
+        .map((child, index) => ({ child, index, rank: paintRank(child) }))
+        .sort((a, b) => a.rank - b.rank || zOrder(a.child) - zOrder(b.child) || a.index - b.index)
+        .map(({ child }) => child);
+    node.children.forEach((child) => {
+        if (child.kind === 'box') {
+            applyPaintOrder(child);
+        }
+    });
+};
+
+// Remove positioned and stacking-context descendants from a plain box, depth first in tree order
+const liftLayeredDescendants = (box: BoxNode, lifted: SimpleNode[]): void => {
+    box.children = box.children.filter((child) => {
+        const rank = paintRank(child);
+        if (rank === PAINT_RANK.negative || rank >= PAINT_RANK.positioned) {
+            lifted.push(child);
+            return false;
+        }
+        if (child.kind === 'box' && !child.overflowHidden) {
+            liftLayeredDescendants(child, lifted);
+        }
+        return true;
+    });
+};
+
+// SVG cannot read back what is already painted, so each backdrop-filtered box gets a pruned copy
+// of the tree: its ancestors' own painting plus every sibling painted before it along the way.
+const collectBackdrops = (root: SimpleNode): Map<BoxNode, BoxNode> => {
+    const backdrops = new Map<BoxNode, BoxNode>();
+    const visit = (node: SimpleNode, ancestors: BoxNode[]) => {
+        if (node.kind !== 'box') {
+            return;
+        }
+        if (node.backdropFilters?.length) {
+            if (ancestors.length) {
+                backdrops.set(node, copyBackdropPath(ancestors, node));
+            } else {
+                console.warn('⚠️ backdrop-filter on the root element has nothing behind it to filter');
+            }
+        }
+        node.children.forEach((child) => visit(child, [...ancestors, node]));
+    };
+    visit(root, []);
+    return backdrops;
+};
+
+// The copy is drawn inside the ancestors' real groups, so their transform, opacity and effects
+// are dropped here rather than applied twice.
+const copyBackdropPath = ([node, ...rest]: BoxNode[], target: BoxNode): BoxNode => {
+    const next = rest[0] ?? target;
+    const children = node.children.slice(0, node.children.indexOf(next));
+    if (rest.length) {
+        children.push(copyBackdropPath(rest, target));
+    }
+    return {
+        ...node,
+        opacity: 1,
+        transform: undefined,
+        filters: undefined,
+        blendMode: undefined,
+        clipPath: undefined,
+        mask: undefined,
+        backdropFilters: undefined,
+        children,
+    };
+};
+
 const createNodeFromElement = (
     element: HTMLElement,
     rootRect: DOMRect,
+    context: CaptureContext,
     allowHidden = false,
+): BoxNode | IconNode | ImageNode | TextNode | null => {
+    const style = window.getComputedStyle(element);
+    const cssTransform = parseCssTransform(element, style);
+    if (!cssTransform) {
+        return captureElementNode(element, style, rootRect, context, allowHidden);
+    }
+
+    // Measure the subtree in its untransformed layout and re-apply the matrix on output,
+    // so nested transforms compose through the SVG group hierarchy exactly as in CSS.
+    // The transform makes a stacking context, so stacking is read before it is suspended.
+    const stacking = captureStacking(element, style);
+    const restoreTransforms = suspendTransforms(element);
+    try {
+        const rect = element.getBoundingClientRect();
+        const transform = applyTransformOrigin(cssTransform, style, rect, rootRect);
+        return captureElementNode(element, style, rootRect, context, allowHidden, transform, stacking);
+    } finally {
+        restoreTransforms();
+    }
+};
+
+const captureElementNode = (
+    element: HTMLElement,
+    style: CSSStyleDeclaration,
+    rootRect: DOMRect,
+    context: CaptureContext,
+    allowHidden: boolean,
+    transform?: TransformMatrix,
+    stacking: StackingInfo = captureStacking(element, style),
 ): BoxNode | IconNode | ImageNode | TextNode | null => {
     const rect = element.getBoundingClientRect();
     if (rect.width === 0 || rect.height === 0) {
         return null;
     }
 
-    const style = window.getComputedStyle(element);
     if (!allowHidden && !isRenderable(style)) {
         return null;
     }
 
-    // Check if this is a Material Symbols icon - return icon node directly
-    if (element.classList.contains('material-symbols-outlined')) {
-        return createIconNode(element, style, rootRect);
+    // Every node kind carries these
+    const effects = {
+        stacking,
+        transform,
+        filters: parseCssFilters(style.filter, 'filter', element),
+        blendMode: parseBlendMode(style, element),
+        clipPath: parseClipPath(style, rect, rootRect, element),
+        mask: parseMaskLayers(style, rect, rootRect),
+    };
+
+    // Icon fonts (Material, Font Awesome, data-icon) become vector glyphs - return icon node directly
+    const iconRequest = detectIcon(element, style);
+    if (iconRequest) {
+        const iconNode = createIconNode(element, style, rootRect, iconRequest, context);
+        return iconNode && { ...iconNode, ...effects };
     }
 
     // Check if this is an IMG element (not background-image)
     if (element.tagName.toLowerCase() === 'img') {
-        return createImageNode(element, style, rootRect);
+        const imageNode = createImageNode(element, style, rootRect);
+        return imageNode && { ...imageNode, ...effects };
+    }
+
+    if (EMBEDDED_CONTENT_TAGS.has(element.tagName)) {
+        return { ...createEmbeddedContentNode(element, style, rect, rootRect, context), ...effects };
     }
 
     const id = element.id || `${element.tagName.toLowerCase()}-${nodeCounter++}`;
     const opacity = clampNumber(parseFloat(style.opacity), 1);
 
     const background = parseFill(style);
-    const borderRadius = parseBorderRadius(style);
-    const borders = parseBorders(style);
+    const borderRadius = parseBorderRadius(style, rect.width, rect.height);
+    // Collapsed table borders are drawn once per grid line by the table instead
+    const collapsedBorders = style.borderCollapse === 'collapse' && TABLE_PART_DISPLAYS.has(style.display);
+    const borders = collapsedBorders ? null : parseBorders(style);
     const shadows = parseBoxShadows(style);
-    const overflowHidden = style.overflow === 'hidden' || style.overflowX === 'hidden' || style.overflowY === 'hidden';
-
-    // Extract background-image URL if present
-    let backgroundImage: string | undefined;
-    let backgroundSize: 'contain' | 'cover' | 'auto' | undefined;
-    if (style.backgroundImage && style.backgroundImage !== 'none') {
-        const imageUrl = extractBackgroundImageUrl(style.backgroundImage);
-        if (imageUrl) {
-            backgroundImage = imageUrl;
-            const bgSize = style.backgroundSize;
-            if (bgSize === 'contain' || bgSize === 'cover') {
-                backgroundSize = bgSize;
-            } else {
-                backgroundSize = 'auto';
+    // Safari still only exposes the prefixed property
+    const backdropFilters = parseCssFilters(style.backdropFilter || style.getPropertyValue('-webkit-backdrop-filter'), 'backdrop-filter', element);
+    const isFormControl = FORM_CONTROL_TAGS.has(element.tagName);
+    // Controls always clip their value text to the field
+    const overflowHidden = isFormControl || style.overflow === 'hidden' || style.overflowX === 'hidden' || style.overflowY === 'hidden';
+
+    const { layers: backgroundLayers, colorClip: backgroundClip } = parseBackgroundLayers(style, rect, rootRect, borderRadius);
+
+    let children: SimpleNode[];
+    if (isFormControl) {
+        children = collectFormControlNodes(element, style, rect, rootRect);
+    } else {
+        children = collectChildNodes(element, style, rootRect, context, allowHidden);
+        // ::before/::after are stood in by real elements only after the real children are measured,
+        // so the probes never shift them or change which selectors match them
+        const probes = mountPseudoElementProbes(element, context);
+        try {
+            const captureProbe = (probe: HTMLElement | null) => (probe ? createNodeFromElement(probe, rootRect, context, allowHidden) : null);
+            const before = captureProbe(probes.before);
+            const after = captureProbe(probes.after);
+            if (before) {
+                children.unshift(before);
+            }
+            if (after) {
+                children.push(after);
             }
+            // Measured while the probes stand in for ::before, which opens the first line
+            const marker = style.display.includes('list-item') ? createListMarker(element, style, rect, rootRect, context) : null;
+            if (marker) {
+                children.unshift(marker);
+            }
+        } finally {
+            probes.remove();
+        }
+        if (collapsedBorders && element.tagName === 'TABLE') {
+            children.push(...collectCollapsedBorders(element as HTMLTableElement, style, rootRect));
         }
     }
 
+    return {
+        id,
+        kind: 'box',
+        tagName: element.tagName.toLowerCase(),
+        x: rect.left - rootRect.left,
+        y: rect.top - rootRect.top,
+        width: rect.width,
+        height: rect.height,
+        opacity,
+        className: element.className || undefined,
+        ...effects,
+        background,
+        backgroundClip,
+        backgroundLayers: backgroundLayers.length ? backgroundLayers : undefined,
+        borderRadius,
+        borders,
+        shadows,
+        backdropFilters,
+        isolated: effects.stacking.context && children.some(containsBlending),
+        overflowHidden,
+        children,
+    };
+};
+
+const collectChildNodes = (
+    element: HTMLElement,
+    style: CSSStyleDeclaration,
+    rootRect: DOMRect,
+    context: CaptureContext,
+    allowHidden: boolean,
+): SimpleNode[] => {
     const children: SimpleNode[] = [];
-    const textNodes = collectTextNodes(element, style, rootRect);
+    const textNodes = collectTextNodes(element, style, rootRect, context);
     children.push(...textNodes);
 
     // Check if text was collected from inline children
     // If so, skip processing those child elements to avoid duplication
     const hasInlineChildren = Array.from(element.children).some(
-        (child) => child instanceof HTMLElement && ['inline', 'inline-block'].includes(window.getComputedStyle(child).display)
+        (child) => isHtmlElement(child) && ['inline', 'inline-block'].includes(window.getComputedStyle(child).display)
     );
     const textCollectedFromInline = hasInlineChildren && textNodes.length > 0;
 
     Array.from(element.children).forEach((child) => {
-        if (!(child instanceof HTMLElement)) {
+        if (child.namespaceURI === SVG_NAMESPACE && child.tagName === 'svg') {
+            const svgNode = createSvgNode(child as SVGSVGElement, rootRect, allowHidden);
+            if (svgNode) {
+                children.push(svgNode);
+            }
             return;
         }
-        if (IGNORED_TAGS.has(child.tagName)) {
+        if (!isHtmlElement(child)) {
             return;
         }
-        // Skip inline children if we already collected their text via parent's innerText
-        if (textCollectedFromInline && ['inline', 'inline-block'].includes(window.getComputedStyle(child).display)) {
+        if (IGNORED_TAGS.has(child.tagName)) {
             return;
         }
+        // Skip inline children whose text was already collected into the parent's runs;
+        // textless ones (dots, empty pseudo-elements), form controls and icons still paint their own box.
+        if (textCollectedFromInline && child.textContent?.trim() && !FORM_CONTROL_TAGS.has(child.tagName)) {
+            const childStyle = window.getComputedStyle(child);
+            if (['inline', 'inline-block'].includes(childStyle.display) && !detectIcon(child, childStyle)) {
+                return;
+            }
+        }
         // Propagate the same hidden handling down the tree so the root's policy applies consistently.
-        const childNode = createNodeFromElement(child, rootRect, allowHidden);
+        const childNode = createNodeFromElement(child, rootRect, context, allowHidden);
         if (childNode) {
             children.push(childNode);
         }
     });
 
-    return {
-        id,
-        kind: 'box',
-        tagName: element.tagName.toLowerCase(),
-        x: rect.left - rootRect.left,
-        y: rect.top - rootRect.top,
-        width: rect.width,
-        height: rect.height,
-        opacity,
-        className: element.className || undefined,
-        background,
-        backgroundImage,
-        backgroundSize,
-        borderRadius,
-        borders,
-        shadows,
-        overflowHidden,
-        children,
-    };
+    return children;
 };
 
-// Material Symbols SVG paths - common icons used in the UI
-const MATERIAL_SYMBOLS_PATHS: Record<string, { path: string; viewBox: string }> = {
-    'dashboard': { path: 'M13 9V3h8v6h-8zm-2 0H3V3h8v6zm2 2h8v10h-8V11zm-2 0v10H3V11h8z', viewBox: '0 0 24 24' },
-    'calendar_month': { path: 'M9 11H7v2h2v-2zm4 0h-2v2h2v-2zm4 0h-2v2h2v-2zm2-7h-1V2h-2v2H8V2H6v2H5c-1.11 0-1.99.9-1.99 2L3 20c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zm0 16H5V9h14v11z', viewBox: '0 0 24 24' },
-    'bed': { path: 'M7 13c1.66 0 3-1.34 3-3S8.66 7 7 7s-3 1.34-3 3 1.34 3 3 3zm12-6h-8v7H3V5H1v15h2v-3h18v3h2v-9c0-2.21-1.79-4-4-4z', viewBox: '0 0 24 24' },
-    'bar_chart': { path: 'M5 9.2h3V19H5V9.2zM10.6 5h2.8v14h-2.8V5zm5.6 8H19v6h-2.8v-6z', viewBox: '0 0 24 24' },
-    'settings': { path: 'M19.14 12.94c.04-.3.06-.61.06-.94 0-.32-.02-.64-.07-.94l2.03-1.58c.18-.14.23-.41.12-.61l-1.92-3.32c-.12-.22-.37-.29-.59-.22l-2.39.96c-.5-.38-1.03-.7-1.62-.94l-.36-2.54c-.04-.24-.24-.41-.48-.41h-3.84c-.24 0-.43.17-.47.41l-.36 2.54c-.59.24-1.13.57-1.62.94l-2.39-.96c-.22-.08-.47 0-.59.22L2.74 8.87c-.12.21-.08.47.12.61l2.03 1.58c-.05.3-.09.63-.09.94s.02.64.07.94l-2.03 1.58c-.18.14-.23.41-.12.61l1.92 3.32c.12.22.37.29.59.22l2.39-.96c.5.38 1.03.7 1.62.94l.36 2.54c.05.24.24.41.48.41h3.84c.24 0 .44-.17.47-.41l.36-2.54c.59-.24 1.13-.56 1.62-.94l2.39.96c.22.08.47 0 .59-.22l1.92-3.32c.12-.22.07-.47-.12-.61l-2.01-1.58zM12 15.6c-1.98 0-3.6-1.62-3.6-3.6s1.62-3.6 3.6-3.6 3.6 1.62 3.6 3.6-1.62 3.6-3.6 3.6z', viewBox: '0 0 24 24' },
-    'help_center': { path: 'M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-7 15h-2v-2h2v2zm1.07-7.75l-.9.92C11.45 11.9 11 12.5 11 14h-2v-.5c0-1.1.45-2.1 1.17-2.83l1.24-1.26c.37-.36.59-.86.59-1.41 0-1.1-.9-2-2-2s-2 .9-2 2H6c0-2.21 1.79-4 4-4s4 1.79 4 4c0 .88-.36 1.68-.93 2.25z', viewBox: '0 0 24 24' },
-    'logout': { path: 'M17 7l-1.41 1.41L18.17 11H8v2h10.17l-2.58 2.58L17 17l5-5zM4 5h8V3H4c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h8v-2H4V5z', viewBox: '0 0 24 24' },
-    'search': { path: 'M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z', viewBox: '0 0 24 24' },
-    'expand_more': { path: 'M16.59 8.59L12 13.17 7.41 8.59 6 10l6 6 6-6z', viewBox: '0 0 24 24' },
-    'add': { path: 'M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z', viewBox: '0 0 24 24' },
-    'edit': { path: 'M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z', viewBox: '0 0 24 24' },
-    'content_copy': { path: 'M16 1H4c-1.1 0-2 .9-2 2v14h2V3h12V1zm3 4H8c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h11c1.1 0 2-.9 2-2V7c0-1.1-.9-2-2-2zm0 16H8V7h11v14z', viewBox: '0 0 24 24' },
-    'delete': { path: 'M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z', viewBox: '0 0 24 24' },
-    'chevron_left': { path: 'M15.41 7.41L14 6l-6 6 6 6 1.41-1.41L10.83 12z', viewBox: '0 0 24 24' },
-    'chevron_right': { path: 'M10 6L8.59 7.41 13.17 12l-4.58 4.59L10 18l6-6z', viewBox: '0 0 24 24' },
-};
-
-const createIconNode = (element: HTMLElement, style: CSSStyleDeclaration, rootRect: DOMRect): IconNode | null => {
-    const iconName = element.textContent?.trim() || '';
-    const iconData = MATERIAL_SYMBOLS_PATHS[iconName];
-
-    if (!iconData) {
-        // If icon not found in our mapping, return null
-        console.warn(`Material Symbol icon "${iconName}" not found in mapping`);
-        return null;
-    }
+const createSvgNode = (element: SVGSVGElement, rootRect: DOMRect, allowHidden: boolean): SvgNode | null => {
+    const style = window.getComputedStyle(element);
+    const cssTransform = parseCssTransform(element, style);
+    // Read before the transform that makes it a stacking context is suspended
+    const stacking = captureStacking(element, style);
+    const restoreTransforms = cssTransform ? suspendTransforms(element) : null;
+    try {
+        const rect = element.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) {
+            return null;
+        }
+        if (!allowHidden && !isRenderable(style)) {
+            return null;
+        }
 
-    const rect = element.getBoundingClientRect();
-    if (rect.width === 0 || rect.height === 0) {
-        return null;
+        const id = `svg-${nodeCounter++}`;
+        const clone = element.cloneNode(true) as SVGSVGElement;
+        inlineSvgComputedStyles(element, clone);
+        namespaceSvgIds(clone, id);
+        // Position and opacity are carried by the node; the root's own CSS must not fight them
+        clone.removeAttribute('style');
+        clone.removeAttribute('opacity');
+        const x = rect.left - rootRect.left;
+        const y = rect.top - rootRect.top;
+        clone.setAttribute('x', formatNumber(x));
+        clone.setAttribute('y', formatNumber(y));
+        clone.setAttribute('width', formatNumber(rect.width));
+        clone.setAttribute('height', formatNumber(rect.height));
+
+        const className = element.getAttribute('class');
+        return {
+            id,
+            kind: 'svg',
+            tagName: 'svg',
+            x,
+            y,
+            width: rect.width,
+            height: rect.height,
+            opacity: clampNumber(parseFloat(style.opacity), 1),
+            className: className || undefined,
+            transform: cssTransform ? applyTransformOrigin(cssTransform, style, rect, rootRect) : undefined,
+            filters: parseCssFilters(style.filter, 'filter', element),
+            blendMode: parseBlendMode(style, element),
+            clipPath: parseClipPath(style, rect, rootRect, element),
+            mask: parseMaskLayers(style, rect, rootRect),
+            stacking,
+            markup: new XMLSerializer().serializeToString(clone),
+            children: [],
+        };
+    } finally {
+        restoreTransforms?.();
     }
-
-    const { color } = parseColor(style.color);
-    const opacity = clampNumber(parseFloat(style.opacity), 1);
-
-    return {
-        id: `icon-${nodeCounter++}`,
-        kind: 'icon',
-        tagName: element.tagName.toLowerCase(),
-        x: rect.left - rootRect.left,
-        y: rect.top - rootRect.top,
-        width: rect.width,
-        height: rect.height,
-        opacity,
-        className: element.className || undefined,
-        iconName,
-        color,
-        svgPath: iconData.path,
-        viewBox: iconData.viewBox,
-        children: [],
-    };
 };
 
-const extractBackgroundImageUrl = (backgroundImage: string): string | null => {
-    const urlMatch = backgroundImage.match(/url\(['"]?([^'"()]+)['"]?\)/);
-    return urlMatch ? urlMatch[1] : null;
+// Presentation properties copied from computed style onto the clone, so currentColor and
+// stylesheet-driven fills survive outside the page.
+const SVG_PAINT_PROPERTIES = ['fill', 'stroke', 'stop-color'] as const;
+const SVG_INLINED_PROPERTIES = [
+    'fill-opacity',
+    'fill-rule',
+    'stroke-width',
+    'stroke-opacity',
+    'stroke-linecap',
+    'stroke-linejoin',
+    'stroke-dasharray',
+    'stroke-dashoffset',
+    'stroke-miterlimit',
+    'stop-opacity',
+] as const;
+
+const inlineSvgComputedStyles = (source: SVGSVGElement, clone: SVGSVGElement) => {
+    const sourceElements = [source, ...Array.from(source.querySelectorAll('*'))];
+    const cloneElements = [clone, ...Array.from(clone.querySelectorAll('*'))];
+    sourceElements.forEach((sourceElement, index) => {
+        const target = cloneElements[index];
+        if (!target) {
+            return;
+        }
+        const computed = window.getComputedStyle(sourceElement);
+        const parentComputed = sourceElement === source || !sourceElement.parentElement ? null : window.getComputedStyle(sourceElement.parentElement);
+        // Inherited values only need writing where they change
+        const differsFromParent = (property: string) =>
+            !parentComputed || computed.getPropertyValue(property) !== parentComputed.getPropertyValue(property);
+
+        SVG_PAINT_PROPERTIES.forEach((property) => {
+            const value = computed.getPropertyValue(property);
+            if (!value || (property === 'stop-color' ? sourceElement.tagName !== 'stop' : !differsFromParent(property))) {
+                return;
+            }
+            if (value === 'none' || value.startsWith('url(')) {
+                target.setAttribute(property, value.replace(/url\((['"]?)(?:[^#'")]*)#([^'")]+)\1\)/, 'url(#$2)'));
+                return;
+            }
+            const { color, opacity } = parseColor(value);
+            target.setAttribute(property, color);
+            if (opacity < 1) {
+                const opacityProperty = property === 'stop-color' ? 'stop-opacity' : `${property}-opacity`;
+                const existing = clampNumber(parseFloat(computed.getPropertyValue(opacityProperty)), 1);
+                target.setAttribute(opacityProperty, formatNumber(existing * opacity));
+            }
+        });
+        SVG_INLINED_PROPERTIES.forEach((property) => {
+            const value = computed.getPropertyValue(property);
+            if (value && differsFromParent(property) && !target.hasAttribute(property)) {
+                target.setAttribute(property, value);
+            }
+        });
+        const opacity = computed.getPropertyValue('opacity');
+        if (opacity && opacity !== '1') {
+            target.setAttribute('opacity', opacity);
+        }
+    });
 };
 
-const createImageNode = (element: HTMLElement, style: CSSStyleDeclaration, rootRect: DOMRect): ImageNode | null => {
-    // Check for background-image
-    let src: string | null = null;
-    let alt: string | undefined;
+// Prefix every id inside the subtree and rewrite references to match, so ids from several
+// inline SVGs (or our own gradient-N/clip-N defs) can never collide.
+const namespaceSvgIds = (clone: SVGSVGElement, prefix: string) => {
+    const idMap = new Map<string, string>();
+    // The <svg> itself is not among its own descendants
+    const identified = [clone, ...Array.from(clone.querySelectorAll('[id]'))].filter((element) => element.id);
+    identified.forEach((element) => {
+        const next = `${prefix}-${element.id}`;
+        idMap.set(element.id, next);
+        element.id = next;
+    });
+    if (!idMap.size) {
+        return;
+    }
 
-    if (element.tagName.toLowerCase() === 'img') {
-        // <img> tag
-        src = element.getAttribute('src');
-        alt = element.getAttribute('alt') || undefined;
+    const rewrite = (value: string) =>
+        value
+            .replace(/url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g, (match, _quote: string, id: string) => (idMap.has(id) ? `url(#${idMap.get(id)})` : match))
+            .replace(/^#(.+)$/, (match, id: string) => (idMap.has(id) ? `#${idMap.get(id)}` : match));
+    [clone, ...Array.from(clone.querySelectorAll('*'))].forEach((element) => {
+        Array.from(element.attributes).forEach((attribute) => {
+            const next = rewrite(attribute.value);
+            if (next !== attribute.value) {
+                element.setAttributeNS(attribute.namespaceURI, attribute.name, next);
+            }
+        });
+    });
+    clone.querySelectorAll('style').forEach((styleElement) => {
+        styleElement.textContent = (styleElement.textContent ?? '').replace(/#([A-Za-z_][\w-]*)/g, (match, id: string) =>
+            idMap.has(id) ? `#${idMap.get(id)}` : match,
+        );
+    });
+};
+
+// Pseudo-elements are not in the DOM, so each rendered ::before/::after is stood in by a real
+// element carrying its computed styles while the pseudo itself is suppressed. The probes are
+// then captured like any other child, which keeps their paint order intact.
+type PseudoElementProbes = { before: HTMLElement | null; after: HTMLElement | null; remove: () => void };
+
+const mountPseudoElementProbes = (element: HTMLElement, context: CaptureContext): PseudoElementProbes => {
+    const probes: PseudoElementProbes = { before: null, after: null, remove: () => undefined };
+    if (element.tagName.startsWith(PSEUDO_PROBE_TAG_PREFIX.toUpperCase())) {
+        return probes;
+    }
+
+    (['before', 'after'] as const).forEach((pseudo) => {
+        const pseudoStyle = window.getComputedStyle(element, `::${pseudo}`);
+        const content = parsePseudoContent(pseudoStyle.content, element);
+        if (content === null || pseudoStyle.display === 'none') {
+            return;
+        }
+        const probe = element.ownerDocument.createElement(`${PSEUDO_PROBE_TAG_PREFIX}${pseudo}`);
+        for (let i = 0; i < pseudoStyle.length; i += 1) {
+            const property = pseudoStyle[i];
+            // `content` on a real element would replace its children
+            if (property !== 'content') {
+                probe.style.setProperty(property, pseudoStyle.getPropertyValue(property));
+            }
+        }
+        probe.textContent = content;
+        probes[pseudo] = probe;
+    });
+
+    const { before, after } = probes;
+    if (!before && !after) {
+        return probes;
+    }
+
+    // Styles were read above; now hide the real pseudo-elements so layout is unchanged
+    if (!context.pseudoSuppressStyle) {
+        context.pseudoSuppressStyle = element.ownerDocument.createElement('style');
+        context.pseudoSuppressStyle.textContent = PSEUDO_SUPPRESS_CSS;
+        element.ownerDocument.head.appendChild(context.pseudoSuppressStyle);
+    }
+    element.setAttribute('data-svg-pseudo-host', [before && 'before', after && 'after'].filter(Boolean).join(' '));
+    if (before) {
+        element.insertBefore(before, element.firstChild);
+    }
+    if (after) {
+        element.appendChild(after);
+    }
+
+    probes.remove = () => {
+        before?.remove();
+        after?.remove();
+        element.removeAttribute('data-svg-pseudo-host');
+    };
+    return probes;
+};
+
+// Resolve a computed `content` value to the text it generates, or null when no box is generated.
+// Counters are left to list-marker handling and images are not rendered as text.
+const parsePseudoContent = (value: string, element: HTMLElement): string | null => {
+    if (!value || value === 'none' || value === 'normal') {
+        return null;
+    }
+    // Drop alternative text (`content: "★" / "star"`)
+    const [generated] = splitCssTopLevel(value, '/');
+    const tokenRegex = /"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|attr\(\s*([^)\s]+)\s*\)|(no-)?(open|close)-quote|counters?\([^)]*\)|url\([^)]*\)/g;
+    let result = '';
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(generated)) !== null) {
+        if (match[1] !== undefined || match[2] !== undefined) {
+            result += unescapeCssString(match[1] ?? match[2]);
+        } else if (match[3]) {
+            result += element.getAttribute(match[3]) ?? '';
+        } else if (match[5] && !match[4]) {
+            result += match[5] === 'open' ? '\u201C' : '\u201D';
+        }
+    }
+    return result;
+};
+
+const unescapeCssString = (value: string): string =>
+    value.replace(/\\([0-9a-f]{1,6}\s?|[\s\S])/gi, (_, escaped: string) => {
+        const hex = escaped.trim();
+        if (/^[0-9a-f]+$/i.test(hex)) {
+            return String.fromCodePoint(parseInt(hex, 16));
+        }
+        return escaped === '\n' ? '' : escaped;
+    });
+
+// List markers are not in the DOM either. The marker is synthesized from list-style (or a custom
+// ::marker content) and set on the first line's baseline: outside markers end at the item's
+// border edge, inside ones start its first line. Disc, circle and square are painted as shapes.
+const createListMarker = (
+    element: HTMLElement,
+    style: CSSStyleDeclaration,
+    rect: DOMRect,
+    rootRect: DOMRect,
+    context: CaptureContext,
+): SimpleNode | null => {
+    const computedMarker = window.getComputedStyle(element, '::marker');
+    if (computedMarker.content === 'none') {
+        return null;
+    }
+    const markerStyle = computedMarker.fontSize ? computedMarker : style;
+    const doc = element.ownerDocument;
+    const rtl = style.direction === 'rtl';
+    const outside = style.listStylePosition !== 'inside';
+    const content = getContentBox(rect, style);
+    const baseline = firstLineBaseline(element, markerStyle, content);
+    const { ascent } = getFontMetrics(markerStyle, doc);
+    const gap = measureTextWidth(' ', markerStyle, doc);
+    // Inline edge the marker leans against, and the direction it extends from there
+    const edge = outside ? (rtl ? rect.right : rect.left) : rtl ? content.right : content.left;
+    const place = (width: number): number => {
+        if (outside) {
+            return rtl ? edge + gap : edge - gap - width;
+        }
+        return rtl ? edge - width : edge;
+    };
+
+    // list-style-type or a custom ::marker content
+    const createTypeMarker = (): SimpleNode | null => {
+        const ordinal = listItemOrdinal(element);
+        const customContent = computedMarker.content && computedMarker.content !== 'normal' ? resolveMarkerContent(computedMarker.content, ordinal, element) : null;
+        const type = style.listStyleType;
+        if (customContent === null && ['disc', 'circle', 'square'].includes(type)) {
+            // Browsers draw these a third of the ascent wide, centered on the x-height
+            const size = Math.max(1, ((ascent * 2) / 3 + 1) / 2);
+            const { color, opacity } = parseColor(markerStyle.color);
+            const fill: Fill | null = type === 'circle' ? null : { kind: 'solid', color, opacity };
+            const border = type === 'circle' ? { ...defaultBorderSide, width: 1, color, opacity } : null;
+            const x = place(size) - rootRect.left;
+            const y = baseline - ascent / 3 - size / 2 - rootRect.top;
+            return createShapeNode('marker', x, y, size, size, fill, type === 'square' ? 0 : size / 2, border);
+        }
+
+        const text = customContent ?? formatListMarker(type, ordinal);
+        if (!text?.trim()) {
+            return null;
+        }
+        // Trailing spaces only separate the marker from the content; `place` already leaves one
+        const label = text.trimEnd();
+        const extra = outside ? measureTextWidth(text.slice(label.length), markerStyle, doc) - gap : 0;
+        const width = measureTextWidth(label, markerStyle, doc);
+        const left = place(width) + (rtl ? extra : -extra);
+        const lineRect = new DOMRect(left, baseline - ascent, width, ascent + getFontMetrics(markerStyle, doc).descent);
+        return createTextNode(element, markerStyle, rootRect, [{ runs: [createTextRun(label, markerStyle)], rect: lineRect, baseline }]);
+    };
+
+    const imageUrl = style.listStyleImage && style.listStyleImage !== 'none' ? extractBackgroundImageUrl(style.listStyleImage) : null;
+    if (imageUrl) {
+        // The image is loaded like a background image and placed once its size is known; one that
+        // fails to load falls back to the list-style-type marker, as in CSS
+        const slot = createShapeNode('marker', edge - rootRect.left, baseline - rootRect.top, 0, 0, null, 0, null);
+        const fallback = createTypeMarker();
+        context.pending.push(
+            loadImageSize(imageUrl).then((image) => {
+                const marker: SimpleNode | null = image
+                    ? {
+                          id: `image-${nodeCounter++}`,
+                          kind: 'image',
+                          tagName: 'marker',
+                          x: place(image.width) - rootRect.left,
+                          y: baseline - image.height - rootRect.top,
+                          width: image.width,
+                          height: image.height,
+                          opacity: 1,
+                          src: imageUrl,
+                          objectFit: 'fill',
+                          borderRadius: uniformBorderRadius(0),
+                          children: [],
+                      }
+                    : fallback;
+                if (marker) {
+                    slot.children.push(marker);
+                }
+            }),
+        );
+        return slot;
+    }
+    return createTypeMarker();
+};
+
+// Baseline of the item's first line box: the first visible character's, or a line of the
+// item's own font at the top of its content box when it holds no text.
+const firstLineBaseline = (element: HTMLElement, style: CSSStyleDeclaration, content: DOMRect): number => {
+    const doc = element.ownerDocument;
+    const walker = doc.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    const range = doc.createRange();
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        const index = (node.textContent ?? '').search(/\S/);
+        if (index < 0 || !node.parentElement || !isRenderable(window.getComputedStyle(node.parentElement))) {
+            continue;
+        }
+        range.setStart(node, index);
+        range.setEnd(node, index + 1);
+        const rect = range.getBoundingClientRect();
+        if (rect.height > 0) {
+            return baselineFromRect(rect, window.getComputedStyle(node.parentElement), doc);
+        }
+    }
+    const lineHeight = parseLineHeight(style.lineHeight, parsePx(style.fontSize, 16));
+    return baselineFromRect(new DOMRect(content.left, content.top, content.width, lineHeight), style, doc);
+};
+
+// The list-item counter from the list's start/reversed attributes and value overrides;
+// counter-reset and counter-increment on the list are not followed.
+const listItemOrdinal = (element: HTMLElement): number => {
+    const list = element.parentElement;
+    if (!list) {
+        return 1;
+    }
+    const items = Array.from(list.children).filter(
+        (child): child is HTMLElement => isHtmlElement(child) && window.getComputedStyle(child).display.includes('list-item'),
+    );
+    const reversed = isHtmlTag(list, 'ol') && list.reversed;
+    let value = isHtmlTag(list, 'ol') && list.hasAttribute('start') ? list.start : reversed ? items.length : 1;
+    for (const item of items) {
+        const override = isHtmlTag(item, 'li') && item.hasAttribute('value') ? parseInt(item.getAttribute('value') ?? '', 10) : NaN;
+        if (!Number.isNaN(override)) {
+            value = override;
+        }
+        if (item === element) {
+            break;
+        }
+        value += reversed ? -1 : 1;
+    }
+    return value;
+};
+
+// ::marker content with counter(list-item) written out before the usual content resolution
+const resolveMarkerContent = (value: string, ordinal: number, element: HTMLElement): string | null => {
+    const resolved = value.replace(/counters?\(\s*list-item\s*(?:,\s*("[^"]*"|'[^']*')\s*)?(?:,\s*([\w-]+)\s*)?\)/g, (_, _separator, type?: string) =>
+        JSON.stringify(formatListCounter(ordinal, type ?? 'decimal')),
+    );
+    return parsePseudoContent(resolved, element);
+};
+
+const formatListMarker = (type: string, ordinal: number): string | null => {
+    if (!type || type === 'none') {
+        return null;
+    }
+    const quoted = type.match(/^(["'])(.*)\1$/);
+    if (quoted) {
+        return unescapeCssString(quoted[2]);
+    }
+    if (type === 'disclosure-open' || type === 'disclosure-closed') {
+        return `${type === 'disclosure-open' ? '▾' : '▸'} `;
+    }
+    return `${formatListCounter(ordinal, type)}. `;
+};
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+    [1000, 'm'],
+    [900, 'cm'],
+    [500, 'd'],
+    [400, 'cd'],
+    [100, 'c'],
+    [90, 'xc'],
+    [50, 'l'],
+    [40, 'xl'],
+    [10, 'x'],
+    [9, 'ix'],
+    [5, 'v'],
+    [4, 'iv'],
+    [1, 'i'],
+];
+
+// Counter styles outside their range, and unknown ones, fall back to decimal as in CSS
+const formatListCounter = (value: number, type: string): string => {
+    const alphabetic = (letters: string): string => {
+        let result = '';
+        for (let rest = value; rest > 0; rest = Math.floor((rest - 1) / letters.length)) {
+            result = letters[(rest - 1) % letters.length] + result;
+        }
+        return result;
+    };
+    switch (type) {
+        case 'decimal-leading-zero':
+            return value >= 0 && value < 10 ? `0${value}` : String(value);
+        case 'lower-roman':
+        case 'upper-roman': {
+            if (value < 1 || value > 3999) {
+                return String(value);
+            }
+            let rest = value;
+            const roman = ROMAN_NUMERALS.map(([amount, numeral]) => {
+                const count = Math.floor(rest / amount);
+                rest -= count * amount;
+                return numeral.repeat(count);
+            }).join('');
+            return type === 'upper-roman' ? roman.toUpperCase() : roman;
+        }
+        case 'lower-alpha':
+        case 'lower-latin':
+            return value > 0 ? alphabetic('abcdefghijklmnopqrstuvwxyz') : String(value);
+        case 'upper-alpha':
+        case 'upper-latin':
+            return value > 0 ? alphabetic('ABCDEFGHIJKLMNOPQRSTUVWXYZ') : String(value);
+        case 'lower-greek':
+            return value > 0 ? alphabetic('αβγδεζηθικλμνξοπρστυφχψω') : String(value);
+        default:
+            return String(value);
+    }
+};
+
+// Natural size of an image the page has already decoded, or null while it is still loading
+const loadedImageSize = (url: string): { width: number; height: number } | null => {
+    const image = new Image();
+    image.src = url;
+    return image.complete && image.naturalWidth ? { width: image.naturalWidth, height: image.naturalHeight } : null;
+};
+
+// Split on a separator that is not nested inside parentheses or quotes
+const splitCssTopLevel = (value: string, separator: string): string[] => {
+    const result: string[] = [];
+    let buffer = '';
+    let depth = 0;
+    let quote: string | null = null;
+    for (const char of value) {
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '(') {
+            depth += 1;
+        } else if (char === ')') {
+            depth = Math.max(depth - 1, 0);
+        } else if (char === separator && depth === 0) {
+            result.push(buffer.trim());
+            buffer = '';
+            continue;
+        }
+        buffer += char;
+    }
+    result.push(buffer.trim());
+    return result;
+};
+
+// Combine the individual translate/rotate/scale properties with `transform`, in the order
+// CSS applies them. Returns null for untransformed elements.
+const parseCssTransform = (element: HTMLElement | SVGElement, style: CSSStyleDeclaration): DOMMatrix | null => {
+    const functions: string[] = [];
+
+    if (style.translate && style.translate !== 'none') {
+        // Percentages resolve against the element's own border box
+        const [tx = '0px', ty = '0px', tz] = style.translate.split(/\s+/);
+        const resolve = (value: string, size: number) => (value.endsWith('%') ? `${(parseFloat(value) / 100) * size}px` : value);
+        const box = isHtmlElement(element) ? { width: element.offsetWidth, height: element.offsetHeight } : element.getBoundingClientRect();
+        const x = resolve(tx, box.width);
+        const y = resolve(ty, box.height);
+        functions.push(tz ? `translate3d(${x}, ${y}, ${tz})` : `translate(${x}, ${y})`);
+    }
+    if (style.rotate && style.rotate !== 'none') {
+        const parts = style.rotate.split(/\s+/);
+        if (parts.length === 1) {
+            functions.push(`rotate(${parts[0]})`);
+        } else if (parts.length === 2) {
+            functions.push(`rotate${parts[0].toUpperCase()}(${parts[1]})`);
+        } else {
+            functions.push(`rotate3d(${parts.join(', ')})`);
+        }
+    }
+    if (style.scale && style.scale !== 'none') {
+        const parts = style.scale.split(/\s+/);
+        functions.push(parts.length === 3 ? `scale3d(${parts.join(', ')})` : `scale(${parts.join(', ')})`);
+    }
+    if (style.transform && style.transform !== 'none') {
+        functions.push(style.transform);
+    }
+
+    if (!functions.length) {
+        return null;
+    }
+    try {
+        const matrix = new DOMMatrix(functions.join(' '));
+        return matrix.isIdentity ? null : matrix;
+    } catch {
+        console.warn(`Unsupported transform "${functions.join(' ')}" ignored`);
+        return null;
+    }
+};
+
+// Express a CSS transform in root coordinates: translate to the transform origin, transform,
+// then translate back. 3D components are flattened to the 2D affine part.
+const applyTransformOrigin = (matrix: DOMMatrix, style: CSSStyleDeclaration, rect: DOMRect, rootRect: DOMRect): TransformMatrix => {
+    const [originX = '0px', originY = '0px'] = style.transformOrigin.split(/\s+/);
+    const ox = rect.left - rootRect.left + parsePx(originX, rect.width / 2);
+    const oy = rect.top - rootRect.top + parsePx(originY, rect.height / 2);
+    const result = new DOMMatrix().translate(ox, oy).multiply(matrix).translate(-ox, -oy);
+    return { a: result.a, b: result.b, c: result.c, d: result.d, e: result.e, f: result.f };
+};
+
+// Temporarily disable an element's transforms (and transitions, so the change applies
+// immediately). Returns a callback that restores the original inline styles.
+const suspendTransforms = (element: HTMLElement | SVGElement): (() => void) => {
+    const properties = ['transform', 'translate', 'rotate', 'scale', 'transition'];
+    const saved = properties.map((property) => ({
+        property,
+        value: element.style.getPropertyValue(property),
+        priority: element.style.getPropertyPriority(property),
+    }));
+    properties.forEach((property) => element.style.setProperty(property, 'none', 'important'));
+    return () => {
+        saved.forEach(({ property, value, priority }) => {
+            if (value) {
+                element.style.setProperty(property, value, priority);
+            } else {
+                element.style.removeProperty(property);
+            }
+        });
+    };
+};
+
+const createIconNode = (
+    element: HTMLElement,
+    style: CSSStyleDeclaration,
+    rootRect: DOMRect,
+    request: IconRequest,
+    context: CaptureContext,
+): IconNode | null => {
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+        return null;
+    }
+
+    const icon = resolveIcon(request, context.iconProviders);
+    if (icon.missing) {
+        console.warn(`Icon "${request.name}" (${request.set}) not found in any icon provider, drawing a placeholder`);
+    }
+    const { glyph } = icon;
+    const svgPath = (request.fill >= 0.5 && glyph.filledPath) || glyph.path || '';
+
+    // Path glyphs are drawn at the regular weight; stroke the outline to approximate heavier wght values
+    const viewBoxWidth = parseFloat(glyph.viewBox.split(/[\s,]+/)[2]) || 24;
+    const weightStroke =
+        svgPath && !glyph.markup && !glyph.weights && request.weight > 400 ? ((request.weight - 400) / 300) * 0.7 * (viewBoxWidth / 24) : 0;
+
+    const { color } = parseColor(style.color);
+    const opacity = clampNumber(parseFloat(style.opacity), 1);
+
+    return {
+        id: `icon-${nodeCounter++}`,
+        kind: 'icon',
+        tagName: element.tagName.toLowerCase(),
+        x: rect.left - rootRect.left,
+        y: rect.top - rootRect.top,
+        width: rect.width,
+        height: rect.height,
+        opacity,
+        className: element.className || undefined,
+        iconName: request.name,
+        color,
+        svgPath,
+        viewBox: glyph.viewBox,
+        markup: glyph.markup,
+        weightStroke: weightStroke || undefined,
+        missing: icon.missing || undefined,
+        children: [],
+    };
+};
+
+const extractBackgroundImageUrl = (backgroundImage: string): string | null => {
+    const urlMatch = backgroundImage.match(/url\(['"]?([^'"()]+)['"]?\)/);
+    return urlMatch ? urlMatch[1] : null;
+};
+
+const createImageNode = (element: HTMLElement, style: CSSStyleDeclaration, rootRect: DOMRect): ImageNode | null => {
+    // Check for background-image
+    let src: string | null = null;
+    let alt: string | undefined;
+
+    if (element.tagName.toLowerCase() === 'img') {
+        // <img> tag: the candidate the browser picked from srcset/<picture>
+        src = (element as HTMLImageElement).currentSrc || element.getAttribute('src');
+        alt = element.getAttribute('alt') || undefined;
     } else {
         // Check for background-image in style
         const bgImage = style.backgroundImage;
@@ -419,10 +1490,10 @@ const createImageNode = (element: HTMLElement, style: CSSStyleDeclaration, rootR
     }
 
     // Parse object-fit
-    let objectFit: 'contain' | 'cover' | 'fill' | 'none' = 'fill';
+    let objectFit: ImageNode['objectFit'] = 'fill';
     const objectFitValue = style.objectFit;
-    if (objectFitValue === 'contain' || objectFitValue === 'cover' || objectFitValue === 'fill' || objectFitValue === 'none') {
-        objectFit = objectFitValue;
+    if (['contain', 'cover', 'fill', 'none', 'scale-down'].includes(objectFitValue)) {
+        objectFit = objectFitValue as ImageNode['objectFit'];
     } else if (element.tagName.toLowerCase() !== 'img') {
         // For background-image, check background-size
         const bgSize = style.backgroundSize;
@@ -434,7 +1505,7 @@ const createImageNode = (element: HTMLElement, style: CSSStyleDeclaration, rootR
     }
 
     const opacity = clampNumber(parseFloat(style.opacity), 1);
-    const borderRadius = parseBorderRadius(style);
+    const borderRadius = parseBorderRadius(style, rect.width, rect.height);
 
     return {
         id: `image-${nodeCounter++}`,
@@ -449,154 +1520,1068 @@ const createImageNode = (element: HTMLElement, style: CSSStyleDeclaration, rootR
         src,
         alt,
         objectFit,
+        ...readObjectPlacement(element, style),
         borderRadius,
         children: [],
     };
 };
 
-const collectTextNodes = (element: HTMLElement, style: CSSStyleDeclaration, rootRect: DOMRect): TextNode[] => {
+// object-position and the intrinsic size of replaced content, when the element has one
+const readObjectPlacement = (element: HTMLElement, style: CSSStyleDeclaration): Pick<ImageNode, 'objectPosition' | 'naturalWidth' | 'naturalHeight'> => {
+    let size: { width: number; height: number } | null = null;
+    if (element.tagName === 'IMG') {
+        const image = element as HTMLImageElement;
+        size = { width: image.naturalWidth, height: image.naturalHeight };
+    } else if (element.tagName === 'CANVAS') {
+        const canvas = element as HTMLCanvasElement;
+        size = { width: canvas.width, height: canvas.height };
+    } else if (element.tagName === 'VIDEO') {
+        const video = element as HTMLVideoElement;
+        size = { width: video.videoWidth, height: video.videoHeight };
+    }
+    const objectPosition = style.objectPosition && style.objectPosition !== '50% 50%' ? style.objectPosition : undefined;
+    return size && size.width > 0 && size.height > 0
+        ? { objectPosition, naturalWidth: size.width, naturalHeight: size.height }
+        : { objectPosition };
+};
+
+const IMAGE_DECODE_TIMEOUT_MS = 3000;
+
+// Load lazy images and wait until every image under the root is decoded, so currentSrc and the
+// natural size are settled before layout is read. Broken or slow images are captured as they are.
+const decodeImages = async (root: HTMLElement): Promise<void> => {
+    const images = [...(root.tagName === 'IMG' ? [root as HTMLImageElement] : []), ...Array.from(root.querySelectorAll('img'))];
+    await Promise.all(
+        images.map(async (image) => {
+            const lazy = image.loading === 'lazy' && !image.complete;
+            if (lazy) {
+                image.loading = 'eager';
+            }
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const timeout = new Promise<void>((resolve) => {
+                timer = setTimeout(resolve, IMAGE_DECODE_TIMEOUT_MS);
+            });
+            await Promise.race([image.decode().catch(() => undefined), timeout]);
+            clearTimeout(timer);
+            if (lazy) {
+                image.loading = 'lazy';
+            }
+        }),
+    );
+};
+
+const EMBEDDED_CONTENT_TAGS = new Set(['CANVAS', 'VIDEO', 'IFRAME']);
+
+// Canvases, videos and iframes paint pixels the DOM does not describe, so their content becomes
+// an image over the element's box: a canvas snapshot, the video's poster or current frame, or a
+// recursive capture of a same-origin document. Anything the page may not read (tainted canvases,
+// cross-origin videos and frames) is replaced by a labelled placeholder of the same size.
+const createEmbeddedContentNode = (element: HTMLElement, style: CSSStyleDeclaration, rect: DOMRect, rootRect: DOMRect, context: CaptureContext): ImageNode => {
+    const node: ImageNode = {
+        id: `image-${nodeCounter++}`,
+        kind: 'image',
+        tagName: element.tagName.toLowerCase(),
+        x: rect.left - rootRect.left,
+        y: rect.top - rootRect.top,
+        width: rect.width,
+        height: rect.height,
+        opacity: clampNumber(parseFloat(style.opacity), 1),
+        className: element.className || undefined,
+        src: '',
+        objectFit: parseObjectFit(style),
+        ...readObjectPlacement(element, style),
+        borderRadius: parseBorderRadius(style, rect.width, rect.height),
+        children: [],
+    };
+    const placeholder = (label: string): ImageNode => ({
+        ...node,
+        src: createPlaceholderImage(label, rect.width, rect.height),
+        alt: label,
+        objectFit: 'fill',
+        naturalWidth: undefined,
+        naturalHeight: undefined,
+    });
+
+    if (element.tagName === 'CANVAS') {
+        const snapshot = readCanvasPixels(element as HTMLCanvasElement);
+        return snapshot ? { ...node, src: snapshot } : placeholder('Canvas content unavailable');
+    }
+
+    if (element.tagName === 'VIDEO') {
+        const video = element as HTMLVideoElement;
+        // The poster shows until playback has produced a frame
+        const started = video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && (!video.paused || video.currentTime > 0);
+        const frame = started || !video.poster ? readVideoFrame(video) : null;
+        if (frame) {
+            return { ...node, src: frame };
+        }
+        // The poster's own size is only known once it is loaded
+        const poster = video.poster ? loadedImageSize(video.poster) : null;
+        return video.poster ? { ...node, src: video.poster, naturalWidth: poster?.width, naturalHeight: poster?.height } : placeholder('Video');
+    }
+
+    const frame = element as HTMLIFrameElement;
+    const label = frame.title || describeFrameSource(frame.src);
+    let frameDocument: Document | null = null;
+    try {
+        frameDocument = frame.contentDocument;
+    } catch {
+        frameDocument = null;
+    }
+    if (!frameDocument?.documentElement) {
+        return placeholder(label);
+    }
+
+    // The frame's viewport is captured at its own scroll position and sized to the content box,
+    // then stretched over the element like the browser does
+    const content = getContentBox(rect, style);
+    const documentElement = frameDocument.documentElement;
+    const viewport = new DOMRect(0, 0, documentElement.clientWidth || content.width, documentElement.clientHeight || content.height);
+    const captured: ImageNode = {
+        ...node,
+        x: content.left - rootRect.left,
+        y: content.top - rootRect.top,
+        width: content.width,
+        height: content.height,
+        objectFit: 'fill',
+        objectPosition: undefined,
+        naturalWidth: viewport.width,
+        naturalHeight: viewport.height,
+    };
+    // The frame's images are merged into the page's report when its SVG is embedded
+    let frameReport: ImageReport | null = null;
+    const onImageReport = (report: ImageReport) => {
+        frameReport = report;
+    };
+    context.pending.push(
+        renderElementToSvg(documentElement, viewport, { ...context.options, onFontManifest: undefined, onImageReport })
+            .then((svg) => {
+                captured.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+                captured.alt = label;
+                if (frameReport) {
+                    context.frameReports.set(captured.src, frameReport);
+                }
+            })
+            .catch((error) => {
+                console.warn(`⚠️ Unable to capture iframe content (${label})`, error);
+                captured.src = createPlaceholderImage(label, content.width, content.height);
+                captured.alt = label;
+            }),
+    );
+    return captured;
+};
+
+const parseObjectFit = (style: CSSStyleDeclaration): ImageNode['objectFit'] =>
+    ['contain', 'cover', 'fill', 'none', 'scale-down'].includes(style.objectFit) ? (style.objectFit as ImageNode['objectFit']) : 'fill';
+
+// Null when the canvas is tainted by cross-origin drawing
+const readCanvasPixels = (canvas: HTMLCanvasElement): string | null => {
+    if (!canvas.width || !canvas.height) {
+        return null;
+    }
+    try {
+        return canvas.toDataURL('image/png');
+    } catch (error) {
+        console.warn('⚠️ Canvas is not readable, using a placeholder', error);
+        return null;
+    }
+};
+
+const readVideoFrame = (video: HTMLVideoElement): string | null => {
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth || !video.videoHeight) {
+        return null;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        return null;
+    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return readCanvasPixels(canvas);
+};
+
+const describeFrameSource = (src: string): string => {
+    try {
+        return `Embedded content from ${new URL(src, document.baseURI).host || 'this page'}`;
+    } catch {
+        return 'Embedded content';
+    }
+};
+
+// Neutral box with a centered caption, as an SVG data URI
+const createPlaceholderImage = (label: string, width: number, height: number): string => {
+    const w = formatNumber(Math.max(1, width));
+    const h = formatNumber(Math.max(1, height));
+    const fontSize = formatNumber(Math.max(8, Math.min(14, height / 4)));
+    const svg =
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">` +
+        `<rect width="100%" height="100%" fill="#e5e7eb" stroke="#9ca3af" stroke-dasharray="4 4" />` +
+        `<text x="50%" y="50%" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif" font-size="${fontSize}" fill="#4b5563">${escapeText(label)}</text></svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// Form controls have no DOM children to walk: their value or placeholder is laid out as a text
+// layer inside the content box, and native widgets are redrawn with simple vector glyphs.
+const collectFormControlNodes = (element: HTMLElement, style: CSSStyleDeclaration, rect: DOMRect, rootRect: DOMRect): SimpleNode[] => {
+    const content = getContentBox(rect, style);
+
+    if (isHtmlTag(element, 'input')) {
+        switch (element.type) {
+            case 'hidden':
+                return [];
+            case 'checkbox':
+            case 'radio':
+                return createToggleGlyphs(element, style, rect, rootRect);
+            case 'range':
+                return createRangeGlyphs(element, style, content, rootRect);
+            case 'color':
+                return [
+                    createShapeNode(
+                        'input',
+                        content.left - rootRect.left,
+                        content.top - rootRect.top,
+                        content.width,
+                        content.height,
+                        { kind: 'solid', ...parseColor(element.value) },
+                        0,
+                        { ...defaultBorderSide, width: 1, color: '#777777' },
+                    ),
+                ];
+            case 'file':
+                return compactNodes([createControlTextNode(element, style, ['Choose File'], content, rootRect, 'center')]);
+            case 'button':
+            case 'submit':
+            case 'reset': {
+                const label = element.value || (element.type === 'submit' ? 'Submit' : element.type === 'reset' ? 'Reset' : '');
+                return compactNodes([createControlTextNode(element, style, [label], content, rootRect, 'center')]);
+            }
+            default: {
+                const value = element.type === 'password' ? '•'.repeat(element.value.length) : element.value;
+                return compactNodes([createValueOrPlaceholderNode(element, style, value, content, rootRect, 'center')]);
+            }
+        }
+    }
+
+    if (isHtmlTag(element, 'textarea')) {
+        return compactNodes([createValueOrPlaceholderNode(element, style, element.value, content, rootRect, 'top', content.width)]);
+    }
+
+    if (isHtmlTag(element, 'select')) {
+        const label = element.selectedOptions[0]?.text ?? '';
+        const nodes: Array<SimpleNode | null> = [createControlTextNode(element, style, [label], content, rootRect, 'center')];
+        // appearance: none selects draw their own arrow (usually a background image)
+        if (style.appearance !== 'none') {
+            const size = Math.min(parsePx(style.fontSize, 16), rect.height);
+            const borderRight = parsePx(style.borderRightWidth, 0);
+            nodes.push(
+                createGlyphNode(
+                    'select',
+                    'expand_more',
+                    FORM_CONTROL_GLYPHS.chevron,
+                    rect.right - borderRight - 4 - size - rootRect.left,
+                    rect.top + (rect.height - size) / 2 - rootRect.top,
+                    size,
+                    parseColor(style.color).color,
+                ),
+            );
+        }
+        return compactNodes(nodes);
+    }
+
+    return [];
+};
+
+const FORM_CONTROL_GLYPHS = {
+    check: 'M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z',
+    indeterminate: 'M19 13H5v-2h14v2z',
+    dot: 'M12 6a6 6 0 1 0 0 12a6 6 0 1 0 0-12z',
+    chevron: 'M16.59 8.59L12 13.17 7.41 8.59 6 10l6 6 6-6z',
+};
+
+// Chrome's default accent and control frame colors, used when accent-color is `auto`
+const DEFAULT_ACCENT_COLOR = '#0075ff';
+const DEFAULT_CONTROL_BORDER_COLOR = '#767676';
+
+const createValueOrPlaceholderNode = (
+    element: HTMLInputElement | HTMLTextAreaElement,
+    style: CSSStyleDeclaration,
+    value: string,
+    content: DOMRect,
+    rootRect: DOMRect,
+    verticalAlign: 'center' | 'top',
+    wrapWidth: number | null = null, // Soft-wrap to this width, as a textarea does
+): TextNode | null => {
+    const toLines = (text: string, textStyle: CSSStyleDeclaration) =>
+        wrapWidth === null ? text.split('\n') : wrapControlText(text, textStyle, wrapWidth, element.ownerDocument);
+    if (value) {
+        return createControlTextNode(element, style, toLines(value, style), content, rootRect, verticalAlign);
+    }
+    if (!element.placeholder) {
+        return null;
+    }
+    // ::placeholder carries its own color (and inherits the control's font)
+    const placeholderStyle = window.getComputedStyle(element, '::placeholder');
+    return createControlTextNode(element, placeholderStyle, toLines(element.placeholder, placeholderStyle), content, rootRect, verticalAlign);
+};
+
+// Break a control's text into the lines the browser shows: white-space decides whether spaces and
+// newlines collapse and whether lines wrap at all, and overflow-wrap (or word-break: break-all)
+// whether a word wider than the box is split between characters.
+const wrapControlText = (text: string, style: CSSStyleDeclaration, width: number, doc: Document): string[] => {
+    const whiteSpace = style.whiteSpace;
+    const collapseSpaces = ['normal', 'nowrap', 'pre-line'].includes(whiteSpace);
+    const collapseNewlines = ['normal', 'nowrap'].includes(whiteSpace);
+    const paragraphs = (collapseNewlines ? text.replace(/\s+/g, ' ') : text)
+        .split('\n')
+        .map((paragraph) => (collapseSpaces ? paragraph.replace(/[ \t]+/g, ' ') : paragraph));
+    if (whiteSpace === 'pre' || whiteSpace === 'nowrap') {
+        return paragraphs;
+    }
+    const breakWords = ['break-word', 'anywhere'].includes(style.overflowWrap) || style.wordBreak === 'break-all' || style.wordBreak === 'break-word';
+    const measure = (line: string) => measureTextWidth(applyTextTransform(line.trimEnd(), style.textTransform), style, doc);
+
+    return paragraphs.flatMap((paragraph) => {
+        const lines: string[] = [];
+        let line = '';
+        (paragraph.match(/\S+\s*|\s+/g) ?? ['']).forEach((word) => {
+            if (!line || measure(line + word) <= width) {
+                line += word;
+            } else {
+                lines.push(line.trimEnd());
+                line = word;
+            }
+            // A word wider than the box is split only when overflow-wrap allows it
+            while (breakWords && measure(line) > width && Array.from(line.trimEnd()).length > 1) {
+                const chars = Array.from(line);
+                let fit = 1;
+                while (fit < chars.length && measure(chars.slice(0, fit + 1).join('')) <= width) {
+                    fit += 1;
+                }
+                lines.push(chars.slice(0, fit).join(''));
+                line = chars.slice(fit).join('');
+            }
+        });
+        lines.push(line.trimEnd());
+        return lines;
+    });
+};
+
+// Lay out explicit lines inside a control's content box. Text inside controls is not reachable
+// through Ranges, so widths come from canvas measurement instead.
+const createControlTextNode = (
+    element: HTMLElement,
+    style: CSSStyleDeclaration,
+    lines: string[],
+    content: DOMRect,
+    rootRect: DOMRect,
+    verticalAlign: 'center' | 'top',
+): TextNode | null => {
+    const fontSize = parsePx(style.fontSize, 16);
+    const lineHeight = parseLineHeight(style.lineHeight, fontSize);
+    const textAnchor = toTextAnchor(style.textAlign);
+    const measuredLines: MeasuredLine[] = [];
+    lines.forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+        const width = measureTextWidth(applyTextTransform(line, style.textTransform), style, element.ownerDocument);
+        let left = content.left;
+        if (textAnchor === 'middle') {
+            left = content.left + (content.width - width) / 2;
+        } else if (textAnchor === 'end') {
+            left = content.right - width;
+        }
+        const lineRect =
+            verticalAlign === 'center'
+                ? new DOMRect(left, content.top, width, content.height)
+                : new DOMRect(left, content.top + index * lineHeight, width, lineHeight);
+        measuredLines.push({ runs: [createTextRun(line, style)], rect: lineRect, baseline: baselineFromRect(lineRect, style, element.ownerDocument) });
+    });
+    return createTextNode(element, style, rootRect, measuredLines);
+};
+
+const createToggleGlyphs = (element: HTMLInputElement, style: CSSStyleDeclaration, rect: DOMRect, rootRect: DOMRect): SimpleNode[] => {
+    // Custom-styled toggles (appearance: none) paint entirely through their own box
+    if (style.appearance === 'none') {
+        return [];
+    }
+    const accent = style.accentColor && style.accentColor !== 'auto' ? parseColor(style.accentColor).color : DEFAULT_ACCENT_COLOR;
+    const size = Math.min(rect.width, rect.height);
+    const x = rect.left - rootRect.left + (rect.width - size) / 2;
+    const y = rect.top - rootRect.top + (rect.height - size) / 2;
+    const isRadio = element.type === 'radio';
+    const active = element.checked || (!isRadio && element.indeterminate);
+    const radius = isRadio ? size / 2 : Math.min(2, size / 2);
+
+    const frame = createShapeNode(
+        'input',
+        x,
+        y,
+        size,
+        size,
+        { kind: 'solid', color: active && !isRadio ? accent : '#ffffff', opacity: 1 },
+        radius,
+        { ...defaultBorderSide, width: 1, color: active ? accent : DEFAULT_CONTROL_BORDER_COLOR },
+    );
+    if (!active) {
+        return [frame];
+    }
+    if (isRadio) {
+        return [frame, createGlyphNode('input', 'radio', FORM_CONTROL_GLYPHS.dot, x, y, size, accent)];
+    }
+    const glyph = element.indeterminate ? FORM_CONTROL_GLYPHS.indeterminate : FORM_CONTROL_GLYPHS.check;
+    return [frame, createGlyphNode('input', element.indeterminate ? 'indeterminate' : 'check', glyph, x, y, size, '#ffffff')];
+};
+
+const createRangeGlyphs = (element: HTMLInputElement, style: CSSStyleDeclaration, content: DOMRect, rootRect: DOMRect): SimpleNode[] => {
+    const accent = style.accentColor && style.accentColor !== 'auto' ? parseColor(style.accentColor).color : DEFAULT_ACCENT_COLOR;
+    const min = element.min === '' ? 0 : parseFloat(element.min);
+    const max = element.max === '' ? 100 : parseFloat(element.max);
+    const value = clampNumber(element.valueAsNumber, (min + max) / 2);
+    const fraction = max > min ? Math.min(1, Math.max(0, (value - min) / (max - min))) : 0;
+
+    const thumbSize = Math.min(16, content.height);
+    const centerY = content.top + content.height / 2 - rootRect.top;
+    const left = content.left - rootRect.left;
+    const thumbX = left + fraction * (content.width - thumbSize);
+    const nodes: SimpleNode[] = [];
+
+    if (style.appearance !== 'none') {
+        const trackHeight = Math.min(4, content.height);
+        const trackY = centerY - trackHeight / 2;
+        const filledWidth = thumbX + thumbSize / 2 - left;
+        nodes.push(
+            createShapeNode('input', left, trackY, content.width, trackHeight, { kind: 'solid', color: '#efefef', opacity: 1 }, trackHeight / 2, {
+                ...defaultBorderSide,
+                width: 1,
+                color: '#b2b2b2',
+            }),
+            createShapeNode('input', left, trackY, filledWidth, trackHeight, { kind: 'solid', color: accent, opacity: 1 }, trackHeight / 2, null),
+        );
+    }
+    nodes.push(
+        createShapeNode('input', thumbX, centerY - thumbSize / 2, thumbSize, thumbSize, { kind: 'solid', color: accent, opacity: 1 }, thumbSize / 2, null),
+    );
+    return nodes;
+};
+
+// Content box of an element in viewport coordinates (border box minus borders and padding)
+const getContentBox = (rect: DOMRect, style: CSSStyleDeclaration): DOMRect => {
+    const left = parsePx(style.borderLeftWidth, 0) + parsePx(style.paddingLeft, 0);
+    const right = parsePx(style.borderRightWidth, 0) + parsePx(style.paddingRight, 0);
+    const top = parsePx(style.borderTopWidth, 0) + parsePx(style.paddingTop, 0);
+    const bottom = parsePx(style.borderBottomWidth, 0) + parsePx(style.paddingBottom, 0);
+    return new DOMRect(rect.left + left, rect.top + top, Math.max(0, rect.width - left - right), Math.max(0, rect.height - top - bottom));
+};
+
+// A plain box with no DOM counterpart (control frames, tracks, thumbs); coordinates are root-relative
+const createShapeNode = (
+    tagName: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    background: Fill | null,
+    radius: number,
+    border: BorderSide | null,
+): BoxNode => ({
+    id: `${tagName}-${nodeCounter++}`,
+    kind: 'box',
+    tagName,
+    x,
+    y,
+    width,
+    height,
+    opacity: 1,
+    background,
+    borderRadius: uniformBorderRadius(radius),
+    borders: border ? { top: border, right: border, bottom: border, left: border } : null,
+    shadows: [],
+    children: [],
+});
+
+// A square 24x24 vector glyph scaled into the given box; coordinates are root-relative
+const createGlyphNode = (tagName: string, iconName: string, svgPath: string, x: number, y: number, size: number, color: string): IconNode => ({
+    id: `icon-${nodeCounter++}`,
+    kind: 'icon',
+    tagName,
+    x,
+    y,
+    width: size,
+    height: size,
+    opacity: 1,
+    iconName,
+    color,
+    svgPath,
+    viewBox: '0 0 24 24',
+    children: [],
+});
+
+// Checked by namespace rather than instanceof, so elements of same-origin iframe documents,
+// which belong to another realm, are walked like the page's own
+const isHtmlElement = (node: unknown): node is HTMLElement =>
+    !!node && (node as Node).nodeType === Node.ELEMENT_NODE && (node as Element).namespaceURI === HTML_NAMESPACE;
+
+const isHtmlTag = <K extends keyof HTMLElementTagNameMap>(node: unknown, tagName: K): node is HTMLElementTagNameMap[K] =>
+    isHtmlElement(node) && node.localName === tagName;
+
+const compactNodes = (nodes: Array<SimpleNode | null>): SimpleNode[] => nodes.filter((node): node is SimpleNode => node !== null);
+
+const collectTextNodes = (element: HTMLElement, style: CSSStyleDeclaration, rootRect: DOMRect, context: CaptureContext): TextNode[] => {
     const results: TextNode[] = [];
-    const opacity = clampNumber(parseFloat(style.opacity), 1);
 
-    // Check if element has inline children - if so, use innerText to capture all text
+    // Check if element has inline children - if so, walk the whole inline formatting context
     const hasInlineChildren = Array.from(element.children).some(
-        (child) => child instanceof HTMLElement && ['inline', 'inline-block'].includes(window.getComputedStyle(child).display)
+        (child) => isHtmlElement(child) && ['inline', 'inline-block'].includes(window.getComputedStyle(child).display)
     );
 
     if (hasInlineChildren) {
-        // Clone element and remove icon children to get clean text
-        const clonedElement = element.cloneNode(true) as HTMLElement;
-        clonedElement.querySelectorAll('.material-symbols-outlined').forEach(icon => icon.remove());
-
-        // Use innerText to get all visible text including from inline children (excluding icons)
-        const fullText = clonedElement.innerText?.replace(/\s+/g, ' ').trim();
-        if (!fullText) {
+        // Each inline child keeps its own color, weight and font, and wrapped lines stay in one layer
+        const lines = truncateLines(collectInlineLines(element, style, context), element, style, 0);
+        const textNode = createTextNode(element, style, rootRect, lines);
+        if (textNode) {
+            // Return early to avoid duplicates from the plain text node pass below
+            results.push(textNode);
             return results;
         }
+    }
 
-        const { color, opacity: colorOpacity } = parseColor(style.color);
-        const fontSize = parsePx(style.fontSize, 16);
-        const fontFamily = sanitizeFontFamily(style.fontFamily);
-        const lineHeight = parseLineHeight(style.lineHeight, fontSize);
-        const letterSpacing = style.letterSpacing === 'normal' ? 0 : parsePx(style.letterSpacing, 0);
-        const textAnchor = toTextAnchor(style.textAlign);
+    // Normal case: one text layer per DOM text node, split into its visual lines
+    const decorations = collectTextDecorations(element, style, context.textDecorations);
+    const { ascent } = getFontMetrics(style, element.ownerDocument);
+    const fontSize = parsePx(style.fontSize, 16);
+    let linesBefore = 0;
+    Array.from(element.childNodes).forEach((node) => {
+        if (node.nodeType !== Node.TEXT_NODE) {
+            return;
+        }
+        if (!(node.textContent ?? '').trim()) {
+            return;
+        }
+
+        // Split the text node into visual lines using Range measurements
+        const lines: MeasuredLine[] = [];
+        // Lines broken inside a word continue it
+        let midWord = false;
+        splitTextByVisualLines(node as Text).forEach(({ text, rect }) => {
+            const continuesWord = midWord;
+            midWord = WORD_END_REGEX.test(text);
+            const content = text.replace(/\s+/g, ' ').trim();
+            if (!content) return;
+            if (!rect || rect.width === 0 || rect.height === 0) return;
+
+            const spans = decorations.length ? [{ left: rect.left, right: rect.right, fontSize, ascent, decorations }] : undefined;
+            lines.push({ runs: [createTextRun(content, style, continuesWord)], rect, baseline: baselineFromRect(rect, style, element.ownerDocument), spans });
+        });
+
+        // line-clamp counts lines across the element's text nodes
+        const textNode = createTextNode(element, style, rootRect, truncateLines(lines, element, style, linesBefore));
+        linesBefore += lines.length;
+        if (textNode) {
+            results.push(textNode);
+        }
+    });
+
+    return results;
+};
+
+type MeasuredLine = {
+    runs: TextRun[];
+    rect: DOMRect;
+    baseline: number; // Viewport-relative y of the alphabetic baseline
+    spans?: DecorationSpan[];
+};
+
+// Viewport-relative stretch of a line under the same decorations, set in a font of this size
+type DecorationSpan = {
+    left: number;
+    right: number;
+    fontSize: number;
+    ascent: number;
+    decorations: TextDecoration[];
+};
+
+// Build a single text layer from measured lines. The node box covers every line so the
+// paragraph can be edited as a block; each line keeps its own anchor x and baseline.
+const createTextNode = (
+    element: HTMLElement,
+    style: CSSStyleDeclaration,
+    rootRect: DOMRect,
+    measuredLines: MeasuredLine[],
+): TextNode | null => {
+    if (!measuredLines.length) {
+        return null;
+    }
+
+    const { color, opacity: colorOpacity } = parseColor(style.color);
+    const fontSize = parsePx(style.fontSize, 16);
+    const fontFamily = sanitizeFontFamily(style.fontFamily);
+    const lineHeight = parseLineHeight(style.lineHeight, fontSize);
+    const letterSpacing = style.letterSpacing === 'normal' ? 0 : parsePx(style.letterSpacing, 0);
+    const textAnchor = toTextAnchor(style.textAlign);
+    const baseStyle = { color, opacity: colorOpacity, fontFamily, fontSize, fontWeight: style.fontWeight, fontStyle: style.fontStyle, letterSpacing };
+
+    const lines: TextLine[] = measuredLines.map(({ runs, rect, baseline, spans }) => {
+        // Adjust X coordinate based on text-anchor alignment
+        let x = rect.left - rootRect.left;
+        if (textAnchor === 'middle') {
+            x = rect.left - rootRect.left + rect.width / 2;
+        } else if (textAnchor === 'end') {
+            x = rect.right - rootRect.left;
+        }
+        const styled = runs.some((run) => !isSameRunStyle(run, baseStyle));
+        const decorations = (spans ?? []).flatMap((span) => placeDecorations(span, baseline - rootRect.top, rootRect.left));
+        return {
+            content: runs.map((run) => run.content).join(''),
+            x,
+            y: baseline - rootRect.top,
+            width: rect.width,
+            runs: styled ? runs : undefined,
+            decorations: decorations.length ? decorations : undefined,
+        };
+    });
+    const shadows = parseShadowList(style.textShadow);
+
+    const left = Math.min(...measuredLines.map(({ rect }) => rect.left));
+    const top = Math.min(...measuredLines.map(({ rect }) => rect.top));
+    const right = Math.max(...measuredLines.map(({ rect }) => rect.right));
+    const bottom = Math.max(...measuredLines.map(({ rect }) => rect.bottom));
+
+    return {
+        id: `text-${nodeCounter++}`,
+        kind: 'text',
+        tagName: element.tagName.toLowerCase(),
+        x: lines[0].x,
+        y: lines[0].y,
+        width: right - left,
+        height: bottom - top,
+        opacity: clampNumber(parseFloat(style.opacity), 1),
+        className: element.className || undefined,
+        text: {
+            content: lines.map((line) => line.content).join('\n'),
+            ...baseStyle,
+            lineHeight,
+            textAnchor,
+            lines,
+            shadows: shadows.length ? shadows : undefined,
+        },
+        children: [],
+    };
+};
+
+// Walk an element's inline descendants in document order, split every text node into its
+// visual lines and group the pieces into line boxes. Each piece is styled from its closest
+// element; whitespace is collapsed across run boundaries the way the browser does, and
+// adjacent runs with identical styling are merged.
+const collectInlineLines = (element: HTMLElement, style: CSSStyleDeclaration, context: CaptureContext): MeasuredLine[] => {
+    const lines: Array<{ runs: TextRun[]; spans: DecorationSpan[]; left: number; top: number; right: number; bottom: number; baseline: number }> = [];
+    // Whether the previous piece ended inside a word, carried across runs for capitalize
+    let midWord = false;
+
+    const pushSegment = (content: string, rect: DOMRect, runStyle: CSSStyleDeclaration, decorations: TextDecoration[]) => {
+        let line = lines[lines.length - 1];
+        // Runs of different sizes overlap vertically on one line; a piece that starts
+        // below the current line box belongs to the next one.
+        // Pieces on one line share a baseline, so the first piece's font places it.
+        if (!line || rect.top >= line.bottom - 1) {
+            const baseline = baselineFromRect(rect, runStyle, element.ownerDocument);
+            line = { runs: [], spans: [], left: rect.left, top: rect.top, right: rect.right, bottom: rect.bottom, baseline };
+            lines.push(line);
+        } else {
+            line.left = Math.min(line.left, rect.left);
+            line.top = Math.min(line.top, rect.top);
+            line.right = Math.max(line.right, rect.right);
+            line.bottom = Math.max(line.bottom, rect.bottom);
+        }
+
+        let collapsed = content.replace(/\s+/g, ' ');
+        const continuesWord = midWord;
+        midWord = WORD_END_REGEX.test(content);
+        const previous = line.runs[line.runs.length - 1];
+        if ((!previous || previous.content.endsWith(' ')) && collapsed.startsWith(' ')) {
+            collapsed = collapsed.slice(1);
+        }
+        if (!collapsed) {
+            return;
+        }
+        if (decorations.length) {
+            // Pieces of one decorating context continue each other's lines
+            const fontSize = parsePx(runStyle.fontSize, 16);
+            const span = line.spans[line.spans.length - 1];
+            if (span && span.decorations === decorations && span.fontSize === fontSize) {
+                span.left = Math.min(span.left, rect.left);
+                span.right = Math.max(span.right, rect.right);
+            } else {
+                line.spans.push({ left: rect.left, right: rect.right, fontSize, ascent: getFontMetrics(runStyle, element.ownerDocument).ascent, decorations });
+            }
+        }
+        const run = createTextRun(collapsed, runStyle, continuesWord);
+        if (previous && isSameRunStyle(previous, run)) {
+            previous.content += run.content;
+            return;
+        }
+        line.runs.push(run);
+    };
+
+    const walk = (parent: HTMLElement, parentStyle: CSSStyleDeclaration, decorations: TextDecoration[]) => {
+        Array.from(parent.childNodes).forEach((node) => {
+            if (node.nodeType === Node.TEXT_NODE) {
+                splitTextByVisualLines(node as Text).forEach(({ text, rect }) => pushSegment(text, rect, parentStyle, decorations));
+                return;
+            }
+            if (!isHtmlElement(node) || IGNORED_TAGS.has(node.tagName)) {
+                return;
+            }
+            // Form controls and icons are emitted as their own nodes
+            if (FORM_CONTROL_TAGS.has(node.tagName)) {
+                return;
+            }
+            const childStyle = window.getComputedStyle(node);
+            if (!isRenderable(childStyle) || detectIcon(node, childStyle)) {
+                return;
+            }
+            const own = parseTextDecorations(childStyle);
+            const inherited = blocksDecorationPropagation(childStyle) ? [] : decorations;
+            walk(node, childStyle, own.length ? [...inherited, ...own] : inherited);
+        });
+    };
+
+    walk(element, style, collectTextDecorations(element, style, context.textDecorations));
+
+    return lines
+        .map(({ runs, spans, left, top, right, bottom, baseline }) => {
+            // Trim the collapsed whitespace at both ends of the line box
+            while (runs.length && !runs[runs.length - 1].content.trim()) {
+                runs.pop();
+            }
+            if (runs.length) {
+                const last = runs[runs.length - 1];
+                last.content = last.content.trimEnd();
+            }
+            return { runs, rect: new DOMRect(left, top, right - left, bottom - top), baseline, spans: spans.length ? spans : undefined };
+        })
+        .filter(({ runs }) => runs.length > 0);
+};
+
+// `midWord` tells capitalize that the text continues a word from the previous run
+const createTextRun = (content: string, style: CSSStyleDeclaration, midWord = false): TextRun => {
+    const { color, opacity } = parseColor(style.color);
+    return {
+        content: applyTextTransform(content, style.textTransform, midWord),
+        color,
+        opacity,
+        fontFamily: sanitizeFontFamily(style.fontFamily),
+        fontSize: parsePx(style.fontSize, 16),
+        fontWeight: style.fontWeight,
+        fontStyle: style.fontStyle,
+        letterSpacing: style.letterSpacing === 'normal' ? 0 : parsePx(style.letterSpacing, 0),
+    };
+};
+
+const isSameRunStyle = (a: Omit<TextRun, 'content'>, b: Omit<TextRun, 'content'>): boolean =>
+    a.color === b.color &&
+    a.opacity === b.opacity &&
+    a.fontFamily === b.fontFamily &&
+    a.fontSize === b.fontSize &&
+    String(a.fontWeight) === String(b.fontWeight) &&
+    a.fontStyle === b.fontStyle &&
+    a.letterSpacing === b.letterSpacing;
+
+const WORD_END_REGEX = /[\p{L}\p{N}'’]$/u;
+
+// The displayed string for text-transform. Layout already reflects the transform, so Range
+// rects stay valid; only the characters change. Repeating it is harmless. Capitalize finds word
+// starts across element boundaries, so text that continues a word (`midWord`) keeps its first letter.
+const applyTextTransform = (content: string, transform: string, midWord = false): string => {
+    if (!transform || transform === 'none') {
+        return content;
+    }
+    if (transform.includes('uppercase')) {
+        content = content.toUpperCase();
+    } else if (transform.includes('lowercase')) {
+        content = content.toLowerCase();
+    } else if (transform.includes('capitalize')) {
+        const wordStart = midWord ? /([^\p{L}\p{N}'’])(\p{L})/gu : /(^|[^\p{L}\p{N}'’])(\p{L})/gu;
+        content = content.replace(wordStart, (_, boundary: string, letter: string) => boundary + letter.toUpperCase());
+    }
+    if (transform.includes('full-width')) {
+        content = content.replace(/[\u0020-\u007e]/g, (char) =>
+            char === ' ' ? '\u3000' : String.fromCharCode(char.charCodeAt(0) + 0xfee0),
+        );
+    }
+    return content;
+};
+
+// Decorations an element's own text is drawn with: those propagated from its ancestors (up to the
+// nearest atomic inline, float or out-of-flow box) followed by its own.
+// Results are kept in `cache` for the capture, so each ancestor's style is read once.
+const collectTextDecorations = (element: HTMLElement, style: CSSStyleDeclaration, cache: Map<Element, TextDecoration[]>): TextDecoration[] => {
+    const cached = cache.get(element);
+    if (cached) {
+        return cached;
+    }
+    const own = parseTextDecorations(style);
+    const parent = element.parentElement;
+    const decorations =
+        !parent || blocksDecorationPropagation(style) ? own : [...collectTextDecorations(parent, window.getComputedStyle(parent), cache), ...own];
+    cache.set(element, decorations);
+    return decorations;
+};
+
+const blocksDecorationPropagation = (style: CSSStyleDeclaration): boolean =>
+    style.display.startsWith('inline-') ||
+    style.float !== 'none' ||
+    style.position === 'absolute' ||
+    style.position === 'fixed';
+
+// Thickness and underline offset resolve against the decorating element's font size
+const parseTextDecorations = (style: CSSStyleDeclaration): TextDecoration[] => {
+    const lineValue = style.textDecorationLine;
+    if (!lineValue || lineValue === 'none') {
+        return [];
+    }
+    const fontSize = parsePx(style.fontSize, 16);
+    const resolveLength = (value: string): number | null => {
+        if (!value || value === 'auto' || value === 'from-font') {
+            return null;
+        }
+        return value.endsWith('%') ? (parseFloat(value) / 100) * fontSize : parsePx(value, 0);
+    };
+    const { color, opacity } = parseColor(style.textDecorationColor || style.color);
+    const decorationStyle = style.textDecorationStyle;
+    const lineStyle: TextDecoration['style'] = ['double', 'dotted', 'dashed', 'wavy'].includes(decorationStyle)
+        ? (decorationStyle as TextDecoration['style'])
+        : 'solid';
+    return (['underline', 'overline', 'line-through'] as const)
+        .filter((line) => lineValue.split(/\s+/).includes(line))
+        .map((line) => ({
+            line,
+            style: lineStyle,
+            color,
+            opacity,
+            thickness: resolveLength(style.textDecorationThickness),
+            underlineOffset: resolveLength(style.textUnderlineOffset),
+        }));
+};
+
+// Stroke positions follow the browser's auto metrics: the underline sits a tenth of an em
+// below the baseline, the overline on the ascent line and line-through near half the x-height.
+const placeDecorations = (span: DecorationSpan, baseline: number, rootLeft: number): TextDecorationStroke[] =>
+    span.decorations
+        .filter(({ opacity }) => opacity > 0)
+        .map((decoration) => {
+            const thickness = decoration.thickness ?? Math.max(1, span.fontSize / 16);
+            let y = baseline - span.fontSize * 0.3;
+            if (decoration.line === 'underline') {
+                y = baseline + (decoration.underlineOffset ?? span.fontSize * 0.1) + thickness / 2;
+            } else if (decoration.line === 'overline') {
+                y = baseline - span.ascent + thickness / 2;
+            }
+            return {
+                line: decoration.line,
+                style: decoration.style,
+                color: decoration.color,
+                opacity: decoration.opacity,
+                x1: span.left - rootLeft,
+                x2: span.right - rootLeft,
+                y,
+                thickness,
+            };
+        });
+
+// text-overflow and line-clamp as the browser paints them: lines past the clamp are dropped, and
+// the last kept line or any line running past the content box is cut to fit the marker.
+// `linesBefore` counts the element's lines already emitted by earlier text nodes.
+const truncateLines = (lines: MeasuredLine[], element: HTMLElement, style: CSSStyleDeclaration, linesBefore: number): MeasuredLine[] => {
+    const clampValue = style.getPropertyValue('-webkit-line-clamp') || style.getPropertyValue('line-clamp');
+    const clamp = ['-webkit-box', '-webkit-inline-box'].includes(style.display) && parseInt(clampValue, 10) > 0 ? parseInt(clampValue, 10) : null;
+    const overflowMarker = style.overflowX !== 'visible' ? parseTextOverflowMarker(style.textOverflow) : null;
+    if (clamp === null && overflowMarker === null) {
+        return lines;
+    }
+
+    const rect = element.getBoundingClientRect();
+    const right = rect.right - parsePx(style.borderRightWidth, 0) - parsePx(style.paddingRight, 0);
+    const kept = clamp === null ? lines : lines.slice(0, Math.max(0, clamp - linesBefore));
+    const clamped = kept.length < lines.length;
+    return kept.map((line, index) => {
+        if (clamped && index === kept.length - 1) {
+            return fitLineToMarker(line, overflowMarker ?? '…', right, style, element.ownerDocument);
+        }
+        if (overflowMarker !== null && line.rect.right > right + 0.5) {
+            return fitLineToMarker(line, overflowMarker, right, style, element.ownerDocument);
+        }
+        return line;
+    });
+};
 
-        // Get bounding rect of entire element text
-        const range = document.createRange();
-        range.selectNodeContents(element);
-        const textRect = range.getBoundingClientRect();
+const parseTextOverflowMarker = (value: string): string | null => {
+    if (value === 'ellipsis') {
+        return '…';
+    }
+    const quoted = value.match(/^(["'])(.*)\1$/);
+    return quoted ? quoted[2] : null;
+};
 
-        if (textRect.width === 0 || textRect.height === 0) {
-            return results;
+// Drop characters from the end of the line until it and the marker, set in the block's own
+// style, end at the content edge
+const fitLineToMarker = (line: MeasuredLine, marker: string, right: number, style: CSSStyleDeclaration, doc: Document): MeasuredLine => {
+    const markerRun = createTextRun(marker, style);
+    const markerWidth = marker ? measureRunWidth(markerRun, doc) : 0;
+    const runs = line.runs.map((run) => ({ ...run }));
+    const limit = right - markerWidth - line.rect.left;
+    let fixedWidth = runs.slice(0, -1).reduce((sum, run) => sum + measureRunWidth(run, doc), 0);
+    while (runs.length) {
+        const last = runs[runs.length - 1];
+        if (fixedWidth + measureRunWidth(last, doc) <= limit) {
+            break;
         }
-
-        let xPos = textRect.left - rootRect.left;
-        if (textAnchor === 'middle') {
-            xPos = textRect.left - rootRect.left + textRect.width / 2;
-        } else if (textAnchor === 'end') {
-            xPos = textRect.right - rootRect.left;
+        last.content = Array.from(last.content).slice(0, -1).join('');
+        if (!last.content) {
+            runs.pop();
+            fixedWidth -= runs.length ? measureRunWidth(runs[runs.length - 1], doc) : 0;
         }
+    }
+    const textRight = line.rect.left + runs.reduce((sum, run) => sum + measureRunWidth(run, doc), 0);
+    const previous = runs[runs.length - 1];
+    if (marker && previous && isSameRunStyle(previous, markerRun)) {
+        previous.content += marker;
+    } else if (marker) {
+        runs.push(markerRun);
+    }
+    const lineRight = Math.min(right, textRight + markerWidth);
+    const spans = line.spans
+        ?.filter((span) => span.left < lineRight)
+        .map((span) => ({ ...span, right: Math.min(span.right, lineRight) }));
+    return {
+        runs,
+        rect: new DOMRect(line.rect.left, line.rect.top, Math.max(0, lineRight - line.rect.left), line.rect.height),
+        baseline: line.baseline,
+        spans,
+    };
+};
 
-        const yPos = textRect.top - rootRect.top + fontSize * 0.8;
+// Place the alphabetic baseline inside a measured text rect. Range rects cover the font's
+// content area (ascent + descent); any extra height is leading split evenly above and below.
+const baselineFromRect = (rect: DOMRect, style: CSSStyleDeclaration, doc: Document): number => {
+    const { ascent, descent } = getFontMetrics(style, doc);
+    const halfLeading = (rect.height - (ascent + descent)) / 2;
+    return rect.top + halfLeading + ascent;
+};
 
-        results.push({
-            id: `text-${nodeCounter++}`,
-            kind: 'text',
-            tagName: element.tagName.toLowerCase(),
-            x: xPos,
-            y: yPos,
-            width: textRect.width,
-            height: textRect.height,
-            opacity,
-            className: element.className || undefined,
-            text: {
-                content: fullText,
-                color,
-                opacity: colorOpacity,
-                fontFamily,
-                fontSize,
-                fontWeight: style.fontWeight,
-                fontStyle: style.fontStyle,
-                letterSpacing,
-                lineHeight,
-                textAnchor,
-            },
-            children: [],
-        });
+// Measured in the text's own document, whose fonts may differ from the page's
+const getFontMetrics = (style: CSSStyleDeclaration, doc: Document): FontMetrics => {
+    const fontSize = parsePx(style.fontSize, 16);
+    const font = toCanvasFont(style);
+    const cache = fontMetricsCache.get(doc) ?? new Map<string, FontMetrics>();
+    fontMetricsCache.set(doc, cache);
+    const cached = cache.get(font);
+    if (cached) {
+        return cached;
     }
 
-    // If we collected text from inline children, return early to avoid duplicates
-    if (hasInlineChildren && results.length > 0) {
-        return results;
+    const metrics = measureFontWithCanvas(font, doc) ?? measureFontWithProbe(style, doc) ?? { ascent: fontSize * 0.8, descent: fontSize * 0.2 };
+    // Don't cache metrics taken from a fallback face while the web font is still loading
+    if (isFontLoaded(font, doc)) {
+        cache.set(font, metrics);
     }
+    return metrics;
+};
 
-    // Normal case: collect individual text nodes
-    Array.from(element.childNodes).forEach((node) => {
-        if (node.nodeType !== Node.TEXT_NODE) {
-            return;
-        }
-        const fullText = node.textContent ?? '';
-        const content = fullText.replace(/\s+/g, ' ').trim();
-        if (!content) {
-            return;
-        }
+const isFontLoaded = (font: string, doc: Document): boolean => {
+    if (!doc.fonts) {
+        return true;
+    }
+    try {
+        return doc.fonts.check(font);
+    } catch {
+        return false;
+    }
+};
 
-        const { color, opacity: colorOpacity } = parseColor(style.color);
-        const fontSize = parsePx(style.fontSize, 16);
-        const fontFamily = sanitizeFontFamily(style.fontFamily);
-        const lineHeight = parseLineHeight(style.lineHeight, fontSize);
-        const letterSpacing = style.letterSpacing === 'normal' ? 0 : parsePx(style.letterSpacing, 0);
-        const textAnchor = toTextAnchor(style.textAlign);
+const toCanvasFont = (style: CSSStyleDeclaration): string =>
+    `${style.fontStyle} ${style.fontWeight} ${formatNumber(parsePx(style.fontSize, 16))}px ${style.fontFamily}`;
 
-        // Split the text node into visual lines using Range measurements
-        const lineSegments = splitTextByVisualLines(node as Text);
-        lineSegments.forEach(({ text, rect }) => {
-            if (!text.trim()) return;
-            if (!rect || rect.width === 0 || rect.height === 0) return;
+// A canvas measures with the fonts of the document that created it
+const metricsCanvasContexts = new WeakMap<Document, CanvasRenderingContext2D | null>();
 
-            // Adjust X coordinate based on text-anchor alignment
-            let xPos = rect.left - rootRect.left;
-            if (textAnchor === 'middle') {
-                xPos = rect.left - rootRect.left + rect.width / 2;
-            } else if (textAnchor === 'end') {
-                xPos = rect.right - rootRect.left;
-            }
+const getMetricsCanvasContext = (doc: Document): CanvasRenderingContext2D | null => {
+    if (!metricsCanvasContexts.has(doc)) {
+        metricsCanvasContexts.set(doc, doc.createElement('canvas').getContext('2d'));
+    }
+    return metricsCanvasContexts.get(doc) ?? null;
+};
 
-            // Calculate baseline position: Use actual line height or fall back to fontSize-based approximation.
-            // For alphabetic baseline, we need the position where most letters sit.
-            // Typically this is about 75-80% down from the top of the line box.
-            const lineBoxHeight = rect.height > 0 ? rect.height : lineHeight;
-            const baselineOffset = lineBoxHeight * 0.75;
-            const yPos = rect.top - rootRect.top + baselineOffset;
-
-            results.push({
-                id: `text-${nodeCounter++}`,
-                kind: 'text',
-                tagName: element.tagName.toLowerCase(),
-                x: xPos,
-                y: yPos,
-                width: rect.width,
-                height: rect.height,
-                opacity,
-                className: element.className || undefined,
-                text: {
-                    content: text,
-                    color,
-                    opacity: colorOpacity,
-                    fontFamily,
-                    fontSize,
-                    fontWeight: style.fontWeight,
-                    fontStyle: style.fontStyle,
-                    letterSpacing,
-                    lineHeight,
-                    textAnchor,
-                },
-                children: [],
-            });
-        });
-    });
+// Advance width of a string set in the given style, including letter-spacing
+const measureTextWidth = (text: string, style: CSSStyleDeclaration, doc: Document): number => {
+    const fontSize = parsePx(style.fontSize, 16);
+    const letterSpacing = style.letterSpacing === 'normal' ? 0 : parsePx(style.letterSpacing, 0);
+    const context = getMetricsCanvasContext(doc);
+    if (!context) {
+        return text.length * (fontSize * 0.5 + letterSpacing);
+    }
+    context.font = toCanvasFont(style);
+    return context.measureText(text).width + text.length * letterSpacing;
+};
 
-    return results;
+// Advance width of a captured run; family names that are not plain identifiers need quotes in
+// the canvas font shorthand
+const measureRunWidth = (run: TextRun, doc: Document): number => {
+    const context = getMetricsCanvasContext(doc);
+    const length = Array.from(run.content).length;
+    if (!context) {
+        return length * (run.fontSize * 0.5 + run.letterSpacing);
+    }
+    const families = run.fontFamily
+        .split(',')
+        .map((family) => family.trim())
+        .map((family) => (/^[a-z_-][\w-]*(\s+[a-z_-][\w-]*)*$/i.test(family) ? family : `"${family}"`))
+        .join(', ');
+    context.font = `${run.fontStyle} ${run.fontWeight} ${formatNumber(run.fontSize)}px ${families}`;
+    return context.measureText(run.content).width + length * run.letterSpacing;
+};
+
+const measureFontWithCanvas = (font: string, doc: Document): FontMetrics | null => {
+    const context = getMetricsCanvasContext(doc);
+    if (!context) {
+        return null;
+    }
+    context.font = font;
+    const measured = context.measureText('Hg');
+    // fontBoundingBox* is missing in older engines; the probe covers those
+    if (typeof measured.fontBoundingBoxAscent !== 'number' || typeof measured.fontBoundingBoxDescent !== 'number') {
+        return null;
+    }
+    return { ascent: measured.fontBoundingBoxAscent, descent: measured.fontBoundingBoxDescent };
+};
+
+// Lay out a zero-size inline-block on the baseline next to sample text and read
+// the distances from the text's content box edges.
+const measureFontWithProbe = (style: CSSStyleDeclaration, doc: Document): FontMetrics | null => {
+    if (!doc.body) {
+        return null;
+    }
+    const probe = doc.createElement('div');
+    probe.style.cssText = 'position:absolute;top:0;left:0;visibility:hidden;white-space:nowrap;line-height:normal;';
+    probe.style.fontFamily = style.fontFamily;
+    probe.style.fontSize = style.fontSize;
+    probe.style.fontWeight = style.fontWeight;
+    probe.style.fontStyle = style.fontStyle;
+    const sample = doc.createElement('span');
+    sample.textContent = 'Hg';
+    const marker = doc.createElement('span');
+    marker.style.cssText = 'display:inline-block;width:0;height:0;vertical-align:baseline;';
+    probe.append(sample, marker);
+    doc.body.appendChild(probe);
+    const sampleRect = sample.getBoundingClientRect();
+    const markerRect = marker.getBoundingClientRect();
+    probe.remove();
+    if (sampleRect.height === 0) {
+        return null;
+    }
+    return { ascent: markerRect.bottom - sampleRect.top, descent: sampleRect.bottom - markerRect.bottom };
 };
 
 // Measure visual lines by advancing a Range through the text node and
@@ -606,7 +2591,7 @@ const splitTextByVisualLines = (textNode: Text): Array<{ text: string; rect: DOM
     const content = textNode.textContent ?? '';
     if (!content) return segments;
 
-    const range = document.createRange();
+    const range = textNode.ownerDocument.createRange();
     // Group by per-character rect.top to avoid mid-word splits
     let currentTop: number | null = null;
     let lineStart = 0;
@@ -688,89 +2673,378 @@ const isRenderable = (style: CSSStyleDeclaration): boolean => {
     return opacity > 0;
 };
 
+// background-color only; background-image layers come from parseBackgroundLayers
 const parseFill = (style: CSSStyleDeclaration): Fill | null => {
-    if (style.backgroundImage && style.backgroundImage !== 'none') {
-        // Skip background-image with url() - those are handled by ImageNode
-        if (style.backgroundImage.includes('url(')) {
-            // If it's a url(), treat it as no fill (will be handled as ImageNode)
-            // But still check for gradients in case there's both
-            const gradient = parseLinearGradient(style.backgroundImage);
-            if (gradient) {
-                return gradient;
-            }
-            // Return null so we don't try to fill with the image URL
-            return null;
-        }
+    if (!style.backgroundColor) {
+        return null;
+    }
+    const { color, opacity } = parseColor(style.backgroundColor);
+    return opacity > 0 ? { kind: 'solid', color, opacity } : null;
+};
 
-        const gradient = parseLinearGradient(style.backgroundImage);
+// Every background-image (or mask-image) layer with its own origin, clip, size, position and
+// repeat. Shorter property lists repeat to match the number of images, as in CSS.
+const parseBackgroundLayers = (
+    style: CSSStyleDeclaration,
+    rect: DOMRect,
+    rootRect: DOMRect,
+    radius: BorderRadius,
+    property: 'background' | 'mask' = 'background',
+): { layers: BackgroundLayer[]; colorClip?: BackgroundClip } => {
+    const borderBox: BoxRect = { x: rect.left - rootRect.left, y: rect.top - rootRect.top, width: rect.width, height: rect.height };
+    const resolveBox = (keyword: string) => resolveReferenceBox(style, borderBox, radius, keyword);
+
+    // Masks are still only exposed with the -webkit- prefix in some engines
+    const read = (name: string) => style.getPropertyValue(`${property}-${name}`) || style.getPropertyValue(`-webkit-${property}-${name}`);
+    const listOf = (value: string) => splitCssTopLevel(value || '', ',');
+    const imageList = read('image');
+    const images = imageList && imageList !== 'none' ? listOf(imageList) : [];
+    const sizes = listOf(read('size'));
+    const positions = listOf(read('position'));
+    const repeats = listOf(read('repeat'));
+    const origins = listOf(read('origin'));
+    const clips = listOf(read('clip'));
+    const pick = (list: string[], index: number, fallback: string) => list[index % list.length] || fallback;
+
+    const layers: BackgroundLayer[] = [];
+    images.forEach((value, index) => {
+        const [repeatX, repeatY] = parseBackgroundRepeat(pick(repeats, index, 'repeat'));
+        const geometry = {
+            area: resolveBox(pick(origins, index, property === 'mask' ? 'border-box' : 'padding-box')).rect,
+            clip: resolveBox(pick(clips, index, 'border-box')),
+            size: pick(sizes, index, 'auto'),
+            position: pick(positions, index, '0% 0%'),
+            repeatX,
+            repeatY,
+        };
+        const url = extractBackgroundImageUrl(value);
+        if (url) {
+            layers.push({ image: { kind: 'url', url }, ...geometry });
+            return;
+        }
+        // Gradients have no intrinsic size, so their tile is known now
+        const tile = resolveBackgroundTile(geometry, null);
+        const gradient = parseGradient(value, tile.width, tile.height);
         if (gradient) {
-            return gradient;
+            layers.push({ image: gradient, ...geometry });
+        }
+    });
+
+    // The color is clipped like the bottom layer
+    const colorClipKeyword = pick(clips, Math.max(images.length - 1, 0), 'border-box');
+    return {
+        layers: layers.reverse(),
+        colorClip: colorClipKeyword === 'padding-box' || colorClipKeyword === 'content-box' ? resolveBox(colorClipKeyword) : undefined,
+    };
+};
+
+// A CSS <box> keyword resolved against the border box, with the border radius shrunk or grown to
+// follow it
+const resolveReferenceBox = (style: CSSStyleDeclaration, borderBox: BoxRect, radius: BorderRadius, keyword: string): BackgroundClip => {
+    const border = {
+        top: parsePx(style.borderTopWidth),
+        right: parsePx(style.borderRightWidth),
+        bottom: parsePx(style.borderBottomWidth),
+        left: parsePx(style.borderLeftWidth),
+    };
+    const padding = {
+        top: border.top + parsePx(style.paddingTop),
+        right: border.right + parsePx(style.paddingRight),
+        bottom: border.bottom + parsePx(style.paddingBottom),
+        left: border.left + parsePx(style.paddingLeft),
+    };
+    if (keyword === 'margin-box') {
+        const margin = {
+            top: -parsePx(style.marginTop),
+            right: -parsePx(style.marginRight),
+            bottom: -parsePx(style.marginBottom),
+            left: -parsePx(style.marginLeft),
+        };
+        return { rect: insetRect(borderBox, margin), radius };
+    }
+    const insets = keyword === 'content-box' ? padding : keyword === 'padding-box' ? border : null;
+    return insets ? { rect: insetRect(borderBox, insets), radius: insetBorderRadius(radius, insets) } : { rect: borderBox, radius };
+};
+
+const parseBackgroundRepeat = (value: string): [BackgroundRepeat, BackgroundRepeat] => {
+    const words = value.trim().split(/\s+/);
+    if (words[0] === 'repeat-x') {
+        return ['repeat', 'no-repeat'];
+    }
+    if (words[0] === 'repeat-y') {
+        return ['no-repeat', 'repeat'];
+    }
+    const toRepeat = (word: string | undefined): BackgroundRepeat =>
+        word === 'no-repeat' || word === 'space' || word === 'round' ? word : 'repeat';
+    return [toRepeat(words[0]), toRepeat(words[1] ?? words[0])];
+};
+
+type BackgroundTile = BoxRect & {
+    stepX: number | null; // Distance between repeated tiles, null when the axis does not repeat
+    stepY: number | null;
+};
+
+// Size and place the first tile of a layer inside its origin box (CSS Backgrounds 3, 3.6-3.9)
+const resolveBackgroundTile = (
+    layer: Pick<BackgroundLayer, 'area' | 'size' | 'position' | 'repeatX' | 'repeatY'>,
+    intrinsic: { width: number; height: number } | null,
+): BackgroundTile => {
+    const { area } = layer;
+    const ratio = intrinsic && intrinsic.height > 0 ? intrinsic.width / intrinsic.height : null;
+    let width: number;
+    let height: number;
+    let autoWidth = false;
+    let autoHeight = false;
+
+    const size = layer.size.trim();
+    if (size === 'cover' || size === 'contain') {
+        if (intrinsic && ratio) {
+            const scale = (size === 'cover' ? Math.max : Math.min)(area.width / intrinsic.width, area.height / intrinsic.height);
+            width = intrinsic.width * scale;
+            height = intrinsic.height * scale;
+        } else {
+            width = area.width;
+            height = area.height;
+        }
+    } else {
+        const [sizeX = 'auto', sizeY = 'auto'] = size.split(/\s+(?![^()]*\))/);
+        const explicitWidth = sizeX === 'auto' ? null : resolveLengthToken(sizeX, area.width);
+        const explicitHeight = sizeY === 'auto' ? null : resolveLengthToken(sizeY, area.height);
+        autoWidth = explicitWidth === null;
+        autoHeight = explicitHeight === null;
+        if (explicitWidth !== null && explicitHeight !== null) {
+            width = explicitWidth;
+            height = explicitHeight;
+        } else if (explicitWidth !== null) {
+            width = explicitWidth;
+            height = ratio ? explicitWidth / ratio : area.height;
+        } else if (explicitHeight !== null) {
+            height = explicitHeight;
+            width = ratio ? explicitHeight * ratio : area.width;
+        } else {
+            width = intrinsic?.width ?? area.width;
+            height = intrinsic?.height ?? area.height;
         }
     }
 
-    if (style.backgroundColor && style.backgroundColor !== 'rgba(0, 0, 0, 0)' && style.backgroundColor !== 'transparent') {
-        const { color, opacity } = parseColor(style.backgroundColor);
-        return { kind: 'solid', color, opacity };
+    // `round` rescales the tile so a whole number fits; an auto other axis keeps the ratio
+    if (layer.repeatX === 'round' && width > 0) {
+        const rounded = area.width / Math.max(1, Math.round(area.width / width));
+        if (autoHeight && layer.repeatY !== 'round') {
+            height *= rounded / width;
+        }
+        width = rounded;
+    }
+    if (layer.repeatY === 'round' && height > 0) {
+        const rounded = area.height / Math.max(1, Math.round(area.height / height));
+        if (autoWidth && layer.repeatX !== 'round') {
+            width *= rounded / height;
+        }
+        height = rounded;
     }
 
-    return null;
+    // `space` spreads whole tiles over the area and ignores background-position
+    const spacing = (repeat: BackgroundRepeat, areaSize: number, tileSize: number): number | null => {
+        const count = tileSize > 0 ? Math.floor(areaSize / tileSize) : 0;
+        return repeat === 'space' && count > 1 ? tileSize + (areaSize - count * tileSize) / (count - 1) : null;
+    };
+    const spacedX = spacing(layer.repeatX, area.width, width);
+    const spacedY = spacing(layer.repeatY, area.height, height);
+
+    // Percentages align the same point of the tile and the area, so they resolve against the leftover space
+    const offset = resolvePosition(layer.position, area.width - width, area.height - height);
+    const repeats = (repeat: BackgroundRepeat) => repeat === 'repeat' || repeat === 'round';
+    return {
+        x: area.x + (spacedX !== null ? 0 : offset.x),
+        y: area.y + (spacedY !== null ? 0 : offset.y),
+        width,
+        height,
+        stepX: spacedX ?? (repeats(layer.repeatX) ? width : null),
+        stepY: spacedY ?? (repeats(layer.repeatY) ? height : null),
+    };
+};
+
+const insetRect = (rect: BoxRect, insets: { top: number; right: number; bottom: number; left: number }): BoxRect => ({
+    x: rect.x + insets.left,
+    y: rect.y + insets.top,
+    width: Math.max(rect.width - insets.left - insets.right, 0),
+    height: Math.max(rect.height - insets.top - insets.bottom, 0),
+});
+
+// Inner corner radii shrink by the adjoining insets
+// Inner curves shrink each axis by the inset on that axis, as for padding-box and content-box edges
+const insetBorderRadius = (radius: BorderRadius, insets: { top: number; right: number; bottom: number; left: number }): BorderRadius => {
+    const corner = ({ x, y }: CornerRadius, horizontal: number, vertical: number): CornerRadius => ({ x: Math.max(x - horizontal, 0), y: Math.max(y - vertical, 0) });
+    return {
+        topLeft: corner(radius.topLeft, insets.left, insets.top),
+        topRight: corner(radius.topRight, insets.right, insets.top),
+        bottomRight: corner(radius.bottomRight, insets.right, insets.bottom),
+        bottomLeft: corner(radius.bottomLeft, insets.left, insets.bottom),
+    };
 };
 
-const parseLinearGradient = (value: string): LinearGradientFill | null => {
-    const segment = extractLinearGradientSegment(value);
+// Parse the first linear, radial or conic gradient (plain or repeating) in a background-image value
+const parseGradient = (value: string, width: number, height: number): GradientFill | null => {
+    const segment = extractGradientSegment(value);
     if (!segment) {
         return null;
     }
-    const inner = segment.slice(segment.indexOf('(') + 1, -1);
-    const tokens = splitGradientArgs(inner);
+    const tokens = splitGradientArgs(segment.args);
     if (!tokens.length) {
         return null;
     }
+    // Stops are always interpolated in sRGB, so only the direction or shape is kept
+    tokens[0] = stripColorInterpolation(tokens[0]);
+    if (!tokens[0]) {
+        tokens.shift();
+    }
+    switch (segment.type) {
+        case 'linear':
+            return parseLinearGradient(tokens, segment.repeating, width, height);
+        case 'radial':
+            return parseRadialGradient(tokens, segment.repeating, width, height);
+        default:
+            return parseConicGradient(tokens, segment.repeating, width, height);
+    }
+};
 
+const parseLinearGradient = (tokens: string[], repeating: boolean, width: number, height: number): LinearGradientFill | null => {
     let angle = 180;
     let startIndex = 0;
-    if (tokens[0].includes('deg') || tokens[0].includes('rad') || tokens[0].startsWith('to ')) {
+    if (parseCssAngle(tokens[0]) !== null || tokens[0].startsWith('to ')) {
         angle = parseGradientAngle(tokens[0]);
         startIndex = 1;
     }
 
-    if (tokens.length - startIndex < 2) {
+    // Length of the CSS gradient line, used to turn px stop positions into fractions
+    const rad = (angle * Math.PI) / 180;
+    const lineLength = Math.abs(width * Math.sin(rad)) + Math.abs(height * Math.cos(rad));
+    const stops = parseColorStops(tokens.slice(startIndex), (length) =>
+        length.unit === '%' ? length.value / 100 : length.unit === 'px' && lineLength > 0 ? length.value / lineLength : null,
+    );
+    if (!stops) {
         return null;
     }
 
-    const stops: GradientStop[] = [];
-    tokens.slice(startIndex).forEach((token, index, arr) => {
-        const stop = parseGradientStop(token.trim(), index, arr.length);
-        if (stop) {
-            stops.push(stop);
+    return { kind: 'linear-gradient', angle, ...finalizeGradientStops(stops, repeating) };
+};
+
+const RADIAL_EXTENT_KEYWORDS = ['closest-side', 'closest-corner', 'farthest-side', 'farthest-corner'];
+
+const parseRadialGradient = (tokens: string[], repeating: boolean, width: number, height: number): RadialGradientFill | null => {
+    let shapeWords: string[] = [];
+    let center = { x: width / 2, y: height / 2 };
+    let startIndex = 0;
+    if (isGradientPrelude(tokens[0])) {
+        const [shapePart, positionPart] = tokens[0].split(/\bat\b/);
+        shapeWords = shapePart.trim().split(/\s+/).filter(Boolean);
+        if (positionPart) {
+            center = resolvePosition(positionPart, width, height);
         }
-    });
+        startIndex = 1;
+    }
 
-    if (stops.length < 2) {
+    const sizes = shapeWords.map(parseGradientLength).filter((length): length is GradientLength => !!length);
+    const circle = shapeWords.includes('circle') || (!shapeWords.includes('ellipse') && sizes.length === 1);
+    let rx: number;
+    let ry: number;
+    if (sizes.length) {
+        rx = resolveLength(sizes[0], width);
+        ry = circle ? rx : resolveLength(sizes[1] ?? sizes[0], height);
+    } else {
+        const extent = shapeWords.find((word) => RADIAL_EXTENT_KEYWORDS.includes(word)) ?? 'farthest-corner';
+        [rx, ry] = radialExtent(extent, circle, center.x, center.y, width, height);
+    }
+    // A zero-sized ending shape still paints its last color
+    rx = Math.max(rx, 0.01);
+    ry = Math.max(ry, 0.01);
+
+    const stops = parseColorStops(tokens.slice(startIndex), (length) =>
+        length.unit === '%' ? length.value / 100 : length.unit === 'px' ? length.value / rx : null,
+    );
+    if (!stops) {
         return null;
     }
 
-    return { kind: 'linear-gradient', angle, stops };
+    return { kind: 'radial-gradient', cx: center.x, cy: center.y, rx, ry, ...finalizeGradientStops(stops, repeating) };
 };
 
-const extractLinearGradientSegment = (value: string): string | null => {
-    const index = value.indexOf('linear-gradient');
-    if (index === -1) {
+// Ending-shape radii for a size keyword. Corner extents of ellipses keep the aspect ratio of the
+// matching side extent, as in CSS Images 3.
+const radialExtent = (extent: string, circle: boolean, cx: number, cy: number, width: number, height: number): [number, number] => {
+    const pick = extent.startsWith('closest') ? Math.min : Math.max;
+    const sideX = pick(Math.abs(cx), Math.abs(width - cx));
+    const sideY = pick(Math.abs(cy), Math.abs(height - cy));
+    if (extent.endsWith('side')) {
+        const side = pick(sideX, sideY);
+        return circle ? [side, side] : [sideX, sideY];
+    }
+    if (circle) {
+        const corner = Math.hypot(sideX, sideY);
+        return [corner, corner];
+    }
+    return [sideX * Math.SQRT2, sideY * Math.SQRT2];
+};
+
+const parseConicGradient = (tokens: string[], repeating: boolean, width: number, height: number): ConicGradientFill | null => {
+    let from = 0;
+    let center = { x: width / 2, y: height / 2 };
+    let startIndex = 0;
+    if (isGradientPrelude(tokens[0])) {
+        const [fromPart, positionPart] = tokens[0].split(/\bat\b/);
+        const fromMatch = fromPart.match(/from\s+(\S+)/);
+        from = (fromMatch && parseCssAngle(fromMatch[1])) ?? 0;
+        if (positionPart) {
+            center = resolvePosition(positionPart, width, height);
+        }
+        startIndex = 1;
+    }
+
+    const stops = parseColorStops(tokens.slice(startIndex), (length) => {
+        if (length.unit === '%') {
+            return length.value / 100;
+        }
+        const angle = parseCssAngle(`${length.value}${length.unit}`);
+        return angle === null ? null : angle / 360;
+    });
+    if (!stops) {
         return null;
     }
-    const start = value.indexOf('(', index);
-    if (start === -1) {
+
+    return { kind: 'conic-gradient', cx: center.x, cy: center.y, from, ...finalizeGradientStops(stops, repeating) };
+};
+
+// Remove an `in <color-space> [<hue-method> hue]` clause from the prelude. Clauses inside
+// color functions such as color-mix(in srgb, ...) belong to a stop and are left alone.
+const stripColorInterpolation = (token: string): string => {
+    const match = token.match(/(^|\s)in\s+[a-z][\w-]*(?:\s+(?:shorter|longer|increasing|decreasing)\s+hue)?(?=\s|$)/i);
+    if (!match || match.index === undefined || token.slice(0, match.index).includes('(')) {
+        return token;
+    }
+    return [token.slice(0, match.index), token.slice(match.index + match[0].length)]
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .join(' ');
+};
+
+// The shape/size/position part that may precede the color stops
+const isGradientPrelude = (token: string): boolean => /^(circle|ellipse|closest-|farthest-|at\s|from\s|-?[\d.])/i.test(token.trim());
+
+const extractGradientSegment = (value: string): { type: 'linear' | 'radial' | 'conic'; repeating: boolean; args: string } | null => {
+    const match = value.match(/(repeating-)?(linear|radial|conic)-gradient\(/);
+    if (!match || match.index === undefined) {
         return null;
     }
+    const start = match.index + match[0].length;
     let depth = 1;
-    for (let i = start + 1; i < value.length; i += 1) {
+    for (let i = start; i < value.length; i += 1) {
         const char = value[i];
         if (char === '(') {
             depth += 1;
         } else if (char === ')') {
             depth -= 1;
             if (depth === 0) {
-                return value.slice(index, i + 1);
+                return { type: match[2] as 'linear' | 'radial' | 'conic', repeating: !!match[1], args: value.slice(start, i) };
             }
         }
     }
@@ -803,11 +3077,9 @@ const splitGradientArgs = (input: string): string[] => {
 
 const parseGradientAngle = (token: string): number => {
     const trimmed = token.trim().toLowerCase();
-    if (trimmed.endsWith('deg')) {
-        return clampNumber(parseFloat(trimmed), 180);
-    }
-    if (trimmed.endsWith('rad')) {
-        return clampNumber((parseFloat(trimmed) * 180) / Math.PI, 180);
+    const angle = parseCssAngle(trimmed);
+    if (angle !== null) {
+        return clampNumber(angle, 180);
     }
     switch (trimmed) {
         case 'to top':
@@ -831,36 +3103,305 @@ const parseGradientAngle = (token: string): number => {
     }
 };
 
-const parseGradientStop = (token: string, index: number, total: number): GradientStop | null => {
-    if (!token) {
+const parseCssAngle = (token: string): number | null => {
+    const match = token.trim().toLowerCase().match(/^(-?\d*\.?\d+)(deg|grad|rad|turn)$/);
+    if (!match) {
+        return null;
+    }
+    const value = parseFloat(match[1]);
+    switch (match[2]) {
+        case 'grad':
+            return value * 0.9;
+        case 'rad':
+            return (value * 180) / Math.PI;
+        case 'turn':
+            return value * 360;
+        default:
+            return value;
+    }
+};
+
+type GradientLength = {
+    value: number;
+    unit: string; // 'px', '%' or an angle unit; unitless zero reads as px
+};
+
+const parseGradientLength = (token: string): GradientLength | null => {
+    const match = token.trim().toLowerCase().match(/^(-?\d*\.?\d+)(px|%|deg|grad|rad|turn)?$/);
+    if (!match || (!match[2] && parseFloat(match[1]) !== 0)) {
+        return null;
+    }
+    return { value: parseFloat(match[1]), unit: match[2] ?? 'px' };
+};
+
+const resolveLength = (length: GradientLength, size: number): number => (length.unit === '%' ? (length.value / 100) * size : length.value);
+
+// A px/% length, or the calc() of px and % terms browsers serialize for offsets like `right 10px`
+const resolveLengthToken = (token: string, size: number): number | null => {
+    const calc = token.trim().match(/^calc\((.*)\)$/i);
+    if (!calc) {
+        const length = parseGradientLength(token);
+        return length && (length.unit === 'px' || length.unit === '%') ? resolveLength(length, size) : null;
+    }
+    const terms = calc[1].replace(/\s+/g, '').match(/[+-]?\d*\.?\d+(?:px|%)/g);
+    if (!terms || terms.join('') !== calc[1].replace(/\s+/g, '')) {
         return null;
     }
-    let colorToken = token;
-    let offsetValue: number | null = null;
+    return terms.reduce((total, term) => total + resolveLength(parseGradientLength(term.replace(/^\+/, ''))!, size), 0);
+};
 
-    const parts = token.split(/\s+(?![^()]*\))/);
-    if (parts.length > 1) {
-        const maybeOffset = parts[parts.length - 1];
-        if (maybeOffset.endsWith('%')) {
-            offsetValue = clampNumber(parseFloat(maybeOffset) / 100, index / Math.max(total - 1, 1));
-            parts.pop();
-            colorToken = parts.join(' ');
+// CSS <position>: one or two keywords/lengths, or keyword + offset pairs such as `right 10px bottom 20px`
+const resolvePosition = (value: string, width: number, height: number): { x: number; y: number } => {
+    const components: Array<{ keyword?: string; offset?: string }> = [];
+    const words = value.trim().toLowerCase().split(/\s+(?![^()]*\))/).filter(Boolean);
+    words.forEach((word) => {
+        const isLength = resolveLengthToken(word, 0) !== null;
+        const previous = components[components.length - 1];
+        if (isLength && words.length > 2 && previous?.keyword && !previous.offset && previous.keyword !== 'center') {
+            previous.offset = word;
+        } else {
+            components.push(isLength ? { offset: word } : { keyword: word });
         }
+    });
+
+    const isVertical = (component?: { keyword?: string }) => component?.keyword === 'top' || component?.keyword === 'bottom';
+    const isHorizontal = (component?: { keyword?: string }) => component?.keyword === 'left' || component?.keyword === 'right';
+    let [horizontal, vertical] = components;
+    if (isVertical(horizontal) || isHorizontal(vertical)) {
+        [horizontal, vertical] = [vertical, horizontal];
     }
 
-    const { color, opacity } = parseColor(colorToken);
-    const offset = offsetValue ?? (index / Math.max(total - 1, 1));
-    return { color, opacity, offset };
+    const resolveAxis = (component: { keyword?: string; offset?: string } | undefined, size: number, start: string, end: string) => {
+        if (!component || component.keyword === 'center') {
+            return size / 2;
+        }
+        const offset = component.offset ? resolveLengthToken(component.offset, size) ?? 0 : 0;
+        if (component.keyword === end) {
+            return size - offset;
+        }
+        return component.keyword === start || !component.keyword ? offset : size / 2;
+    };
+
+    return {
+        x: resolveAxis(horizontal, width, 'left', 'right'),
+        y: resolveAxis(vertical, height, 'top', 'bottom'),
+    };
+};
+
+type PendingStop = {
+    color: string;
+    opacity: number;
+    offset: number | null;
+};
+
+// Resolve color stops and hints the way CSS does: missing first/last positions become 0 and 1,
+// positions never go backwards, unpositioned stops are spread evenly, and hints are approximated
+// with extra stops along the hinted interpolation curve.
+const parseColorStops = (tokens: string[], toLengthOffset: (length: GradientLength) => number | null): GradientStop[] | null => {
+    // Unitless zero is valid in any unit, including angles
+    const toOffset = (length: GradientLength) => (length.value === 0 ? 0 : toLengthOffset(length));
+    const entries: Array<PendingStop | { hint: number }> = [];
+    tokens.forEach((token) => {
+        const parts = token.trim().split(/\s+(?![^()]*\))/);
+        const lengths = parts.map(parseGradientLength);
+        if (parts.length === 1 && lengths[0]) {
+            const hint = toOffset(lengths[0]);
+            if (hint !== null) {
+                entries.push({ hint });
+            }
+            return;
+        }
+        const colorIndex = lengths.findIndex((length) => !length);
+        if (colorIndex === -1) {
+            return;
+        }
+        const { color, opacity } = parseColor(parts[colorIndex]);
+        const offsets = lengths.filter((length): length is GradientLength => !!length).map(toOffset);
+        if (!offsets.length) {
+            entries.push({ color, opacity, offset: null });
+        }
+        // `red 10% 20%` is two stops of the same color
+        offsets.forEach((offset) => entries.push({ color, opacity, offset }));
+    });
+
+    const stops = entries.filter((entry): entry is PendingStop => 'color' in entry);
+    if (stops.length < 2) {
+        return null;
+    }
+    stops[0].offset ??= 0;
+    stops[stops.length - 1].offset ??= 1;
+    let highest = -Infinity;
+    stops.forEach((stop) => {
+        if (stop.offset !== null) {
+            stop.offset = Math.max(stop.offset, highest);
+            highest = stop.offset;
+        }
+    });
+    for (let i = 1; i < stops.length - 1; i += 1) {
+        if (stops[i].offset !== null) {
+            continue;
+        }
+        let next = i;
+        while (stops[next].offset === null) {
+            next += 1;
+        }
+        const from = stops[i - 1].offset!;
+        const step = (stops[next].offset! - from) / (next - i + 1);
+        for (let j = i; j < next; j += 1) {
+            stops[j].offset = from + step * (j - i + 1);
+        }
+    }
+
+    const result: GradientStop[] = [];
+    entries.forEach((entry, index) => {
+        if ('color' in entry) {
+            result.push({ color: entry.color, opacity: entry.opacity, offset: entry.offset! });
+            return;
+        }
+        const previous = result[result.length - 1];
+        const next = entries.slice(index + 1).find((candidate): candidate is PendingStop => 'color' in candidate);
+        if (previous && next) {
+            result.push(...interpolateColorHint(previous, { color: next.color, opacity: next.opacity, offset: next.offset! }, entry.hint));
+        }
+    });
+    return result;
+};
+
+const COLOR_HINT_SAMPLES = 8;
+
+// CSS moves the 50% mix point to the hint with the curve t^(ln 0.5 / ln m)
+const interpolateColorHint = (from: GradientStop, to: GradientStop, hint: number): GradientStop[] => {
+    const span = to.offset - from.offset;
+    if (span <= 0) {
+        return [];
+    }
+    const midpoint = (hint - from.offset) / span;
+    if (midpoint <= 0) {
+        return [{ ...to, offset: from.offset }];
+    }
+    if (midpoint >= 1) {
+        return [{ ...from, offset: to.offset }];
+    }
+    if (Math.abs(midpoint - 0.5) < 0.001) {
+        return [];
+    }
+    const exponent = Math.log(0.5) / Math.log(midpoint);
+    return Array.from({ length: COLOR_HINT_SAMPLES - 1 }, (_, index) => {
+        const t = (index + 1) / COLOR_HINT_SAMPLES;
+        return { ...mixGradientStops(from, to, t ** exponent), offset: from.offset + span * t };
+    });
+};
+
+const mixGradientStops = (from: GradientStop, to: GradientStop, weight: number): Omit<GradientStop, 'offset'> => {
+    const hex = /^#[0-9a-f]{6}$/i;
+    let color = weight < 0.5 ? from.color : to.color;
+    if (hex.test(from.color) && hex.test(to.color)) {
+        const channel = (start: number) => {
+            const a = parseInt(from.color.slice(start, start + 2), 16);
+            const b = parseInt(to.color.slice(start, start + 2), 16);
+            return Math.round(a + (b - a) * weight);
+        };
+        color = rgbToHex(channel(1), channel(3), channel(5));
+    }
+    return { color, opacity: from.opacity + (to.opacity - from.opacity) * weight };
+};
+
+// Color at `offset`; at a hard stop `fromLeft` picks the color arriving from below
+const sampleGradientStops = (stops: GradientStop[], offset: number, fromLeft: boolean): Omit<GradientStop, 'offset'> => {
+    const below = stops.filter((stop) => stop.offset <= offset).length - 1;
+    const index = fromLeft ? stops.findIndex((stop) => stop.offset >= offset) : below;
+    if (index === -1) {
+        return fromLeft ? stops[stops.length - 1] : stops[0];
+    }
+    const [from, to] = fromLeft ? [stops[index - 1], stops[index]] : [stops[index], stops[index + 1]];
+    if (!from || !to || to.offset <= from.offset) {
+        return stops[index];
+    }
+    return mixGradientStops(from, to, (offset - from.offset) / (to.offset - from.offset));
 };
 
-const parseBorderRadius = (style: CSSStyleDeclaration): BorderRadius => {
-    const parseValue = (value: string): number => (value && value !== '0px' ? parsePx(value, 0) : 0);
+// Map stops onto SVG's 0-1 offset range. Repeating gradients are reduced to one period that starts
+// on a multiple of the period, so spreadMethod="repeat" lines up with the CSS tiling.
+const finalizeGradientStops = (stops: GradientStop[], repeating: boolean): { stops: GradientStop[]; period?: number } => {
+    const first = stops[0].offset;
+    const last = stops[stops.length - 1].offset;
+    const period = last - first;
+    if (repeating && period > 0) {
+        const wrapAt = first + ((((-first) % period) + period) % period);
+        const head = stops.filter((stop) => stop.offset >= wrapAt).map((stop) => ({ ...stop, offset: (stop.offset - wrapAt) / period }));
+        const tail = stops.filter((stop) => stop.offset < wrapAt).map((stop) => ({ ...stop, offset: (stop.offset - wrapAt + period) / period }));
+        return {
+            stops: [
+                { ...sampleGradientStops(stops, wrapAt, false), offset: 0 },
+                ...head,
+                ...tail,
+                { ...sampleGradientStops(stops, wrapAt === first ? last : wrapAt, true), offset: 1 },
+            ],
+            period,
+        };
+    }
+    if (repeating) {
+        // A zero-length period paints the last color everywhere
+        const { color, opacity } = stops[stops.length - 1];
+        return { stops: [{ color, opacity, offset: 0 }, { color, opacity, offset: 1 }] };
+    }
+    if (first >= 0 && last <= 1) {
+        return { stops };
+    }
+    const inside = stops.filter((stop) => stop.offset > 0 && stop.offset < 1);
     return {
-        topLeft: parseValue(style.borderTopLeftRadius),
-        topRight: parseValue(style.borderTopRightRadius),
-        bottomRight: parseValue(style.borderBottomRightRadius),
-        bottomLeft: parseValue(style.borderBottomLeftRadius),
+        stops: [
+            { ...sampleGradientStops(stops, 0, false), offset: 0 },
+            ...inside,
+            { ...sampleGradientStops(stops, 1, true), offset: 1 },
+        ],
+    };
+};
+
+// Each corner is `h` or `h v`; percentages refer to the border box's width and height
+const parseBorderRadius = (style: CSSStyleDeclaration, width: number, height: number): BorderRadius => {
+    const parseCorner = (value: string): CornerRadius => {
+        const [horizontal, vertical = horizontal] = (value || '0px').trim().split(/\s+(?![^()]*\))/);
+        return { x: Math.max(resolveLengthToken(horizontal, width) ?? 0, 0), y: Math.max(resolveLengthToken(vertical, height) ?? 0, 0) };
     };
+    return scaleBorderRadius(
+        {
+            topLeft: parseCorner(style.borderTopLeftRadius),
+            topRight: parseCorner(style.borderTopRightRadius),
+            bottomRight: parseCorner(style.borderBottomRightRadius),
+            bottomLeft: parseCorner(style.borderBottomLeftRadius),
+        },
+        width,
+        height,
+    );
+};
+
+const uniformBorderRadius = (radius: number): BorderRadius => ({
+    topLeft: { x: radius, y: radius },
+    topRight: { x: radius, y: radius },
+    bottomRight: { x: radius, y: radius },
+    bottomLeft: { x: radius, y: radius },
+});
+
+const hasBorderRadius = (radius: BorderRadius): boolean =>
+    [radius.topLeft, radius.topRight, radius.bottomRight, radius.bottomLeft].some(({ x, y }) => x > 0 && y > 0);
+
+// CSS overlap rule: when adjacent radii add up to more than their side, every radius shrinks by
+// the same factor until they fit
+const scaleBorderRadius = (radius: BorderRadius, width: number, height: number): BorderRadius => {
+    const { topLeft, topRight, bottomRight, bottomLeft } = radius;
+    const ratios = [
+        [width, topLeft.x + topRight.x],
+        [width, bottomLeft.x + bottomRight.x],
+        [height, topLeft.y + bottomLeft.y],
+        [height, topRight.y + bottomRight.y],
+    ].map(([side, sum]) => (sum > 0 ? side / sum : Infinity));
+    const factor = Math.min(1, ...ratios);
+    if (factor >= 1) {
+        return radius;
+    }
+    const scale = ({ x, y }: CornerRadius): CornerRadius => ({ x: x * factor, y: y * factor });
+    return { topLeft: scale(topLeft), topRight: scale(topRight), bottomRight: scale(bottomRight), bottomLeft: scale(bottomLeft) };
 };
 
 const parseBorders = (style: CSSStyleDeclaration): BorderSet | null => {
@@ -871,7 +3412,7 @@ const parseBorders = (style: CSSStyleDeclaration): BorderSet | null => {
         const styleValue = style[`border${side}Style` as keyof CSSStyleDeclaration] as string | null;
         const colorValue = style[`border${side}Color` as keyof CSSStyleDeclaration] as string | null;
         const width = parsePx(widthValue, 0);
-        if (width <= 0 || styleValue === 'none') {
+        if (width <= 0 || styleValue === 'none' || styleValue === 'hidden') {
             return;
         }
         const { color, opacity } = parseColor(colorValue ?? '#000000');
@@ -883,28 +3424,212 @@ const parseBorders = (style: CSSStyleDeclaration): BorderSet | null => {
         } satisfies BorderSide;
     });
 
-    if (!result.Top && !result.Right && !result.Bottom && !result.Left) {
+    if (!result.Top && !result.Right && !result.Bottom && !result.Left) {
+        return null;
+    }
+
+    const fallback: BorderSide = { ...defaultBorderSide };
+    return {
+        top: result.Top ?? fallback,
+        right: result.Right ?? fallback,
+        bottom: result.Bottom ?? fallback,
+        left: result.Left ?? fallback,
+    };
+};
+
+const defaultBorderSide: BorderSide = {
+    width: 0,
+    color: '#000000',
+    opacity: 1,
+    style: 'solid',
+};
+
+// Table boxes whose borders are merged into the shared grid under border-collapse
+const TABLE_PART_DISPLAYS = new Set([
+    'table',
+    'inline-table',
+    'table-row-group',
+    'table-header-group',
+    'table-footer-group',
+    'table-row',
+    'table-cell',
+]);
+
+// Lowest to highest; a wider border always wins before style is compared
+const BORDER_STYLE_PRIORITY = ['inset', 'groove', 'outset', 'ridge', 'dotted', 'dashed', 'solid', 'double'];
+
+// A border competing for a stretch of one grid line. Positions are viewport-relative; the line
+// is centered on `position`, which is where collapsed cells meet.
+type GridBorderCandidate = {
+    horizontal: boolean;
+    position: number;
+    start: number;
+    end: number;
+    side: BorderSide;
+    edge: 'top' | 'right' | 'bottom' | 'left'; // Which side of its box the border is, for inset/outset/groove/ridge shading
+    origin: number; // cell 3, row 2, row group 1, table 0
+};
+
+// Collapsed borders of a <table>, drawn once per grid line segment after every cell background.
+// Each segment goes to the winner of CSS's conflict resolution: hidden suppresses it, then the
+// wider border, the stronger style, and finally the cell over its row, row group and table.
+const collectCollapsedBorders = (table: HTMLTableElement, style: CSSStyleDeclaration, rootRect: DOMRect): BoxNode[] => {
+    const candidates: GridBorderCandidate[] = [];
+    const addSides = (element: Element, rect: DOMRect, origin: number, sides: Array<'Top' | 'Right' | 'Bottom' | 'Left'>) => {
+        const elementStyle = element === table ? style : window.getComputedStyle(element);
+        sides.forEach((side) => {
+            const horizontal = side === 'Top' || side === 'Bottom';
+            candidates.push({
+                horizontal,
+                position: { Top: rect.top, Right: rect.right, Bottom: rect.bottom, Left: rect.left }[side],
+                start: horizontal ? rect.left : rect.top,
+                end: horizontal ? rect.right : rect.bottom,
+                side: readCollapsedSide(elementStyle, side),
+                edge: side.toLowerCase() as GridBorderCandidate['edge'],
+                origin,
+            });
+        });
+    };
+
+    const cellRects: DOMRect[] = [];
+    const groups = new Set<HTMLTableSectionElement>();
+    Array.from(table.rows).forEach((row) => {
+        const cells = Array.from(row.cells).filter((cell) => cell.getBoundingClientRect().width > 0);
+        if (!cells.length) {
+            return;
+        }
+        cells.forEach((cell) => {
+            const rect = cell.getBoundingClientRect();
+            cellRects.push(rect);
+            addSides(cell, rect, 3, ['Top', 'Right', 'Bottom', 'Left']);
+        });
+        const rowRect = unionRects(cells.map((cell) => cell.getBoundingClientRect()));
+        addSides(row, rowRect, 2, ['Top', 'Bottom']);
+        const group = row.parentElement;
+        if (isHtmlTag(group, 'thead') || isHtmlTag(group, 'tbody') || isHtmlTag(group, 'tfoot')) {
+            groups.add(group);
+        }
+    });
+    if (!cellRects.length) {
+        return [];
+    }
+    groups.forEach((group) => {
+        const rects = Array.from(group.rows).flatMap((row) => Array.from(row.cells).map((cell) => cell.getBoundingClientRect()));
+        if (rects.length) {
+            addSides(group, unionRects(rects), 1, ['Top', 'Bottom']);
+        }
+    });
+    // The table's own border lies on the outermost grid lines
+    addSides(table, unionRects(cellRects), 0, ['Top', 'Right', 'Bottom', 'Left']);
+
+    // Neighbours meet on the same line up to subpixel rounding
+    const lines: GridBorderCandidate[][] = [];
+    [...candidates]
+        .sort((a, b) => Number(a.horizontal) - Number(b.horizontal) || a.position - b.position)
+        .forEach((candidate) => {
+            const line = lines[lines.length - 1];
+            if (line && line[0].horizontal === candidate.horizontal && candidate.position - line[0].position < 0.5) {
+                line.push(candidate);
+            } else {
+                lines.push([candidate]);
+            }
+        });
+
+    const nodes: BoxNode[] = [];
+    lines.forEach((line) => {
+        const stops = Array.from(new Set(line.flatMap(({ start, end }) => [start, end]))).sort((a, b) => a - b);
+        let segment: { start: number; end: number; winner: GridBorderCandidate } | null = null;
+        const flush = () => {
+            if (segment) {
+                nodes.push(createGridBorderNode(line[0].position, segment.start, segment.end, segment.winner, rootRect));
+            }
+            segment = null;
+        };
+        stops.slice(1).forEach((end, index) => {
+            const start = stops[index];
+            if (end - start < 0.5) {
+                return;
+            }
+            const covering = line.filter((candidate) => candidate.start <= start + 0.5 && candidate.end >= end - 0.5);
+            const winner = resolveCollapsedBorder(covering);
+            if (
+                segment &&
+                winner &&
+                isSameBorderSide(segment.winner.side, winner.side) &&
+                segment.winner.edge === winner.edge &&
+                Math.abs(segment.end - start) < 0.5
+            ) {
+                segment.end = end;
+                return;
+            }
+            flush();
+            if (winner) {
+                segment = { start, end, winner };
+            }
+        });
+        flush();
+    });
+    return nodes;
+};
+
+// `hidden` is kept as a style here so it can suppress the other candidates
+const readCollapsedSide = (style: CSSStyleDeclaration, side: 'Top' | 'Right' | 'Bottom' | 'Left'): BorderSide => {
+    const { color, opacity } = parseColor(style.getPropertyValue(`border-${side.toLowerCase()}-color`) || '#000000');
+    return {
+        width: parsePx(style.getPropertyValue(`border-${side.toLowerCase()}-width`), 0),
+        style: style.getPropertyValue(`border-${side.toLowerCase()}-style`) || 'none',
+        color,
+        opacity,
+    };
+};
+
+const resolveCollapsedBorder = (candidates: GridBorderCandidate[]): GridBorderCandidate | null => {
+    if (candidates.some(({ side }) => side.style === 'hidden')) {
         return null;
     }
+    const rank = ({ side, origin }: GridBorderCandidate) => [side.width, BORDER_STYLE_PRIORITY.indexOf(side.style), origin];
+    // Full ties go to the candidate met first, i.e. the cell further up and to the left
+    const winner = candidates
+        .filter(({ side }) => side.style !== 'none' && side.width > 0)
+        .reduce<GridBorderCandidate | null>((best, candidate) => {
+            if (!best) {
+                return candidate;
+            }
+            const current = rank(best);
+            const next = rank(candidate);
+            const index = next.findIndex((value, position) => value !== current[position]);
+            return index >= 0 && next[index] > current[index] ? candidate : best;
+        }, null);
+    return winner;
+};
 
-    const fallback: BorderSide = { ...defaultBorderSide };
-    return {
-        top: result.Top ?? fallback,
-        right: result.Right ?? fallback,
-        bottom: result.Bottom ?? fallback,
-        left: result.Left ?? fallback,
-    };
+// A segment is a box one border wide whose single border, on the winning border's own side, paints
+// the line in its style; both ends grow by half the width so crossing lines meet without notches
+const createGridBorderNode = (position: number, start: number, end: number, { horizontal, side, edge }: GridBorderCandidate, rootRect: DOMRect): BoxNode => {
+    const half = side.width / 2;
+    const node = horizontal
+        ? createShapeNode('table', start - half - rootRect.left, position - half - rootRect.top, end - start + side.width, side.width, null, 0, null)
+        : createShapeNode('table', position - half - rootRect.left, start - half - rootRect.top, side.width, end - start + side.width, null, 0, null);
+    const none = { ...defaultBorderSide };
+    node.borders = { top: none, right: none, bottom: none, left: none, [edge]: side };
+    return node;
 };
 
-const defaultBorderSide: BorderSide = {
-    width: 0,
-    color: '#000000',
-    opacity: 1,
-    style: 'solid',
+const isSameBorderSide = (a: BorderSide, b: BorderSide): boolean =>
+    a.width === b.width && a.style === b.style && a.color === b.color && a.opacity === b.opacity;
+
+const unionRects = (rects: DOMRect[]): DOMRect => {
+    const left = Math.min(...rects.map((rect) => rect.left));
+    const top = Math.min(...rects.map((rect) => rect.top));
+    const right = Math.max(...rects.map((rect) => rect.right));
+    const bottom = Math.max(...rects.map((rect) => rect.bottom));
+    return new DOMRect(left, top, right - left, bottom - top);
 };
 
-const parseBoxShadows = (style: CSSStyleDeclaration): BoxShadow[] => {
-    const value = style.boxShadow;
+const parseBoxShadows = (style: CSSStyleDeclaration): BoxShadow[] => parseShadowList(style.boxShadow);
+
+// box-shadow and text-shadow share the comma-separated list syntax
+const parseShadowList = (value: string | undefined): BoxShadow[] => {
     if (!value || value === 'none') {
         return [];
     }
@@ -943,24 +3668,19 @@ const splitShadowValue = (value: string): string[] => {
     return result;
 };
 
+// Computed values put the color first (`rgba(0, 0, 0, 0.1) 0px 1px 3px 0px`); authored ones may put it last
 const parseSingleShadow = (value: string): BoxShadow | null => {
     if (!value) {
         return null;
     }
-    const inset = /(^|\s)inset(\s|$)/i.test(value);
-    const cleaned = value.replace(/(^|\s)inset(\s|$)/gi, ' ').trim();
-    const colorMatch = cleaned.match(SHADOW_COLOR_REGEX);
-    let colorToken = 'rgba(0, 0, 0, 0.25)';
-    let numericPart = cleaned;
-    if (colorMatch && colorMatch.index !== undefined) {
-        colorToken = colorMatch[0];
-        numericPart = (cleaned.slice(0, colorMatch.index) + cleaned.slice(colorMatch.index + colorToken.length)).trim();
-    }
-    const tokens = numericPart.split(/\s+/).filter(Boolean);
-    if (tokens.length < 2) {
+    const tokens = value.trim().split(/\s+(?![^()]*\))/).filter(Boolean);
+    const inset = tokens.some((token) => token.toLowerCase() === 'inset');
+    const lengths = tokens.filter((token) => PX_REGEX.test(token) || token === '0');
+    const colorToken = tokens.find((token) => token.toLowerCase() !== 'inset' && !lengths.includes(token)) ?? 'rgba(0, 0, 0, 0.25)';
+    if (lengths.length < 2) {
         return null;
     }
-    const [offsetX, offsetY, blur = '0px', spread = '0px'] = tokens;
+    const [offsetX, offsetY, blur = '0px', spread = '0px'] = lengths;
     const { color, opacity } = parseColor(colorToken);
     return {
         inset,
@@ -973,45 +3693,238 @@ const parseSingleShadow = (value: string): BoxShadow | null => {
     };
 };
 
-const parseColor = (value: string | null | undefined): RgbaColor => {
-    if (!value) {
-        return { color: '#000000', opacity: 1 };
+// clip-path basic shapes (inset, circle, ellipse, polygon, path) and <box> keywords. SVG-only
+// boxes fall back to the border box; url() references are reported and skipped.
+const parseClipPath = (style: CSSStyleDeclaration, rect: DOMRect, rootRect: DOMRect, element: Element): ClipShape | undefined => {
+    const value = style.clipPath;
+    if (!value || value === 'none') {
+        return undefined;
+    }
+    const shape = value.match(/([a-z]+)\(((?:[^()]|\([^()]*\))*)\)/i);
+    const keyword = (shape ? value.replace(shape[0], '') : value).trim();
+    if (shape?.[1].toLowerCase() === 'url' || !/^[a-z-]*$/.test(keyword)) {
+        console.warn(`⚠️ Unsupported clip-path ${value} on <${element.tagName.toLowerCase()}> ignored`);
+        return undefined;
+    }
+
+    const borderBox: BoxRect = { x: rect.left - rootRect.left, y: rect.top - rootRect.top, width: rect.width, height: rect.height };
+    const reference = resolveReferenceBox(style, borderBox, parseBorderRadius(style, rect.width, rect.height), keyword);
+    const { width, height } = reference.rect;
+    const outline = shape
+        ? basicShapePath(shape[1].toLowerCase(), shape[2].trim(), width, height)
+        : { d: roundedRectPath(0, 0, width, height, reference.radius), clipRule: 'nonzero' as const };
+    if (!outline) {
+        console.warn(`⚠️ Unsupported clip-path ${value} on <${element.tagName.toLowerCase()}> ignored`);
+        return undefined;
+    }
+    return { x: reference.rect.x, y: reference.rect.y, ...outline };
+};
+
+// Basic shape function arguments resolved against a width x height reference box
+const basicShapePath = (name: string, args: string, width: number, height: number): Pick<ClipShape, 'd' | 'clipRule'> | null => {
+    const words = (input: string) => input.trim().split(/\s+(?![^()]*\))/).filter(Boolean);
+
+    if (name === 'inset') {
+        const [insetPart, roundPart] = args.split(/\s+round\s+/);
+        const values = words(insetPart);
+        const [top, right = top, bottom = top, left = right] = values;
+        const insets = [top, right, bottom, left].map((token, index) => resolveLengthToken(token ?? '', index % 2 ? width : height));
+        if (!values.length || insets.some((inset) => inset === null)) {
+            return null;
+        }
+        const [t, r, b, l] = insets as number[];
+        // border-radius syntax, with optional vertical radii after a slash, against the inset rectangle
+        const boxWidth = Math.max(width - l - r, 0);
+        const boxHeight = Math.max(height - t - b, 0);
+        const [horizontalPart, verticalPart] = (roundPart ?? '0').split('/');
+        const expand = (part: string, size: number) => {
+            const [first, second = first, third = first, fourth = second] = words(part).map((token) => Math.max(resolveLengthToken(token, size) ?? 0, 0));
+            return [first, second, third, fourth];
+        };
+        const horizontal = expand(horizontalPart, boxWidth);
+        const vertical = verticalPart ? expand(verticalPart, boxHeight) : horizontal;
+        const [topLeft, topRight, bottomRight, bottomLeft] = horizontal.map((x, index) => ({ x, y: vertical[index] }));
+        return {
+            d: roundedRectPath(l, t, boxWidth, boxHeight, scaleBorderRadius({ topLeft, topRight, bottomRight, bottomLeft }, boxWidth, boxHeight)),
+            clipRule: 'nonzero',
+        };
     }
-    const trimmed = value.trim();
 
-    const rgbaMatch = trimmed.match(RGBA_REGEX);
-    if (rgbaMatch) {
-        const r = clampChannel(parseInt(rgbaMatch[1], 10));
-        const g = clampChannel(parseInt(rgbaMatch[2], 10));
-        const b = clampChannel(parseInt(rgbaMatch[3], 10));
-        const a = rgbaMatch[4] !== undefined ? clampNumber(parseFloat(rgbaMatch[4]), 1) : 1;
-        return { color: rgbToHex(r, g, b), opacity: a };
+    if (name === 'circle' || name === 'ellipse') {
+        const [radiusPart, positionPart] = args.split(/\s*\bat\b\s*/);
+        const center = positionPart ? resolvePosition(positionPart, width, height) : { x: width / 2, y: height / 2 };
+        const sides = { x: [center.x, width - center.x], y: [center.y, height - center.y] };
+        const resolveRadius = (token: string | undefined, axis: 'x' | 'y' | 'both') => {
+            const distances = axis === 'both' ? [...sides.x, ...sides.y] : sides[axis];
+            if (!token || token === 'closest-side') {
+                return Math.min(...distances);
+            }
+            if (token === 'farthest-side') {
+                return Math.max(...distances);
+            }
+            const reference = axis === 'x' ? width : axis === 'y' ? height : Math.hypot(width, height) / Math.SQRT2;
+            return resolveLengthToken(token, reference);
+        };
+        const radiusWords = words(radiusPart);
+        const rx = resolveRadius(radiusWords[0], name === 'circle' ? 'both' : 'x');
+        const ry = name === 'circle' ? rx : resolveRadius(radiusWords[1], 'y');
+        if (rx === null || ry === null) {
+            return null;
+        }
+        return { d: ellipsePath(center.x, center.y, rx, ry), clipRule: 'nonzero' };
     }
 
-    const hexMatch = trimmed.match(HEX_REGEX);
-    if (hexMatch) {
-        const normalized = normalizeHex(hexMatch[1]);
-        const opacity = normalized.length === 8 ? parseInt(normalized.slice(6), 16) / 255 : 1;
-        return { color: `#${normalized.slice(0, 6)}`, opacity };
+    // polygon() and path() may lead with a fill rule
+    const [first, ...rest] = splitCssTopLevel(args, ',');
+    const hasRule = first === 'evenodd' || first === 'nonzero';
+    const clipRule = first === 'evenodd' ? 'evenodd' : 'nonzero';
+    const items = hasRule ? rest : [first, ...rest];
+
+    if (name === 'polygon') {
+        const points = items.map((item) => {
+            const [x, y] = words(item);
+            return [resolveLengthToken(x ?? '', width), resolveLengthToken(y ?? '', height)];
+        });
+        if (points.length < 3 || points.some(([x, y]) => x === null || y === null)) {
+            return null;
+        }
+        return { d: `M ${points.map(([x, y]) => `${formatNumber(x!)} ${formatNumber(y!)}`).join(' L ')} Z`, clipRule };
     }
+    if (name === 'path') {
+        const data = items[0]?.trim().match(/^(["'])(.*)\1$/);
+        return data ? { d: data[2], clipRule } : null;
+    }
+    return null;
+};
+
+const parseMaskLayers = (style: CSSStyleDeclaration, rect: DOMRect, rootRect: DOMRect): BackgroundLayer[] | undefined => {
+    const { layers } = parseBackgroundLayers(style, rect, rootRect, parseBorderRadius(style, rect.width, rect.height), 'mask');
+    return layers.length ? layers : undefined;
+};
 
-    return { color: trimmed, opacity: 1 };
+const parseBlendMode = (style: CSSStyleDeclaration, element: Element): BlendMode | undefined => {
+    const value = style.mixBlendMode;
+    if (!value || value === 'normal') {
+        return undefined;
+    }
+    if (!(BLEND_MODES as readonly string[]).includes(value)) {
+        console.warn(`⚠️ Unsupported mix-blend-mode ${value} on <${element.tagName.toLowerCase()}> ignored`);
+        return undefined;
+    }
+    return value as BlendMode;
 };
 
-const normalizeHex = (value: string): string => {
-    if (value.length === 3) {
-        return value.split('').map((char) => char + char).join('') + 'ff';
+// Properties whose non-initial value makes an element a stacking context
+const STACKING_CONTEXT_PROPERTIES = ['transform', 'translate', 'rotate', 'scale', 'perspective', 'filter', 'backdrop-filter', 'clip-path', 'mask-image', 'mask'];
+
+// CSS stacking context rules, minus the root: blending and z-order never reach past these
+const createsStackingContext = (element: Element, style: CSSStyleDeclaration): boolean => {
+    if (style.position === 'fixed' || style.position === 'sticky') {
+        return true;
     }
-    if (value.length === 4) {
-        return value
-            .split('')
-            .map((char) => char + char)
-            .join('');
+    if (style.zIndex && style.zIndex !== 'auto' && zIndexApplies(element, style)) {
+        return true;
     }
-    if (value.length === 6) {
-        return `${value}ff`;
+    if (parseFloat(style.opacity) < 1 || style.isolation === 'isolate' || (style.mixBlendMode && style.mixBlendMode !== 'normal')) {
+        return true;
     }
-    return value;
+    if (STACKING_CONTEXT_PROPERTIES.some((property) => !['', 'none'].includes(style.getPropertyValue(property)))) {
+        return true;
+    }
+    if (/layout|paint|strict|content/.test(style.contain ?? '') || /size/.test(style.getPropertyValue('container-type'))) {
+        return true;
+    }
+    const willChange = style.willChange ?? '';
+    return willChange !== 'auto' && (STACKING_CONTEXT_PROPERTIES.some((property) => willChange.includes(property)) || willChange.includes('opacity'));
+};
+
+// z-index only affects positioned boxes and flex or grid items
+const zIndexApplies = (element: Element, style: CSSStyleDeclaration): boolean => {
+    if (style.position && style.position !== 'static') {
+        return true;
+    }
+    const parentDisplay = element.parentElement ? window.getComputedStyle(element.parentElement).display : '';
+    return /flex|grid/.test(parentDisplay);
+};
+
+const captureStacking = (element: Element, style: CSSStyleDeclaration): StackingInfo => {
+    const zIndex = style.zIndex && style.zIndex !== 'auto' && zIndexApplies(element, style) ? parseInt(style.zIndex, 10) || 0 : 0;
+    return {
+        zIndex,
+        context: createsStackingContext(element, style),
+        positioned: !!style.position && style.position !== 'static',
+        float: !!style.float && style.float !== 'none',
+        inline: (style.display ?? '').startsWith('inline'),
+    };
+};
+
+// Whether something in the subtree blends with what is painted behind this node
+const containsBlending = (node: SimpleNode): boolean =>
+    !!node.blendMode || (node.kind === 'box' && !node.isolated && node.children.some(containsBlending));
+
+const CSS_FILTER_AMOUNTS = new Set(['brightness', 'contrast', 'grayscale', 'invert', 'opacity', 'saturate', 'sepia']);
+// These cannot amplify past 100%
+const CSS_FILTER_CAPPED_AMOUNTS = new Set(['grayscale', 'invert', 'opacity', 'sepia']);
+
+// Computed filter lists, e.g. `blur(8px) grayscale(1) drop-shadow(rgba(0, 0, 0, 0.2) 0px 4px 6px)`.
+// Functions SVG cannot reproduce (url() references, unknown names) are reported and skipped.
+const parseCssFilters = (value: string | undefined, property: 'filter' | 'backdrop-filter', element: Element): CssFilter[] | undefined => {
+    if (!value || value === 'none') {
+        return undefined;
+    }
+
+    const filters: CssFilter[] = [];
+    const unsupported: string[] = [];
+    for (const match of value.matchAll(/([a-z-]+)\(((?:[^()]|\([^()]*\))*)\)/gi)) {
+        const name = match[1].toLowerCase();
+        const args = match[2].trim();
+        const filter = parseCssFilterFunction(name, args);
+        if (filter) {
+            filters.push(filter);
+        } else {
+            unsupported.push(match[0]);
+        }
+    }
+    if (unsupported.length) {
+        console.warn(`⚠️ Unsupported ${property} ${unsupported.join(' ')} on <${element.tagName.toLowerCase()}> ignored`);
+    }
+    return filters.length ? filters : undefined;
+};
+
+const parseCssFilterFunction = (name: string, args: string): CssFilter | null => {
+    if (name === 'blur') {
+        const radius = args ? parsePx(args, NaN) : 0;
+        return Number.isFinite(radius) ? { kind: 'blur', radius: Math.max(radius, 0) } : null;
+    }
+    if (name === 'hue-rotate') {
+        const angle = args ? parseCssAngle(args) ?? (args === '0' ? 0 : null) : 0;
+        return angle === null ? null : { kind: 'hue-rotate', angle };
+    }
+    if (name === 'drop-shadow') {
+        const shadow = parseSingleShadow(args);
+        return shadow && !shadow.inset ? { kind: 'drop-shadow', shadow: { ...shadow, spread: 0 } } : null;
+    }
+    if (CSS_FILTER_AMOUNTS.has(name)) {
+        const match = (args || '1').match(/^(\d*\.?\d+)(%?)$/);
+        if (!match) {
+            return null;
+        }
+        const amount = parseFloat(match[1]) / (match[2] ? 100 : 1);
+        return { kind: name as 'brightness', amount: CSS_FILTER_CAPPED_AMOUNTS.has(name) ? Math.min(amount, 1) : amount };
+    }
+    return null;
+};
+
+// Every captured color goes through here; anything parseCssColor cannot resolve is kept verbatim
+const parseColor = (value: string | null | undefined): RgbaColor => {
+    if (!value) {
+        return { color: '#000000', opacity: 1 };
+    }
+    const parsed = parseCssColor(value);
+    if (!parsed) {
+        return { color: value.trim(), opacity: 1 };
+    }
+    return { color: rgbToHex(parsed.r, parsed.g, parsed.b), opacity: parsed.alpha };
 };
 
 const rgbToHex = (r: number, g: number, b: number): string => {
@@ -1019,8 +3932,6 @@ const rgbToHex = (r: number, g: number, b: number): string => {
     return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
 };
 
-const clampChannel = (value: number): number => Math.min(255, Math.max(0, value));
-
 const clampNumber = (value: number, fallback = 0): number => {
     if (Number.isNaN(value) || !Number.isFinite(value)) {
         return fallback;
@@ -1080,8 +3991,34 @@ const toTextAnchor = (textAlign: string): 'start' | 'middle' | 'end' => {
 };
 
 const renderNode = async (node: SimpleNode, context: RenderContext): Promise<string> => {
+    const filtered = node.filters ? await renderFilteredNode(node, node.filters, context) : await renderNodeContent(node, context);
+    if (!node.blendMode && !node.clipPath && !node.mask) {
+        return filtered;
+    }
+    // SVG applies these in CSS order: the filter to the node and its descendants as one image,
+    // then clip-path and mask, then blending with what lies behind
+    const clipAttr = node.clipPath ? ` clip-path="url(#${ensureShapeClip(node.clipPath, node.transform, context)})"` : '';
+    const maskAttr = node.mask ? ` mask="url(#${await ensureMask(node.mask, node.transform, context)})"` : '';
+    const blendAttr = node.blendMode ? ` style="mix-blend-mode:${node.blendMode}"` : '';
+    return `<g${clipAttr}${maskAttr}${blendAttr}>${filtered}</g>`;
+};
+
+// Filters run in the node's local space, so blur regions and drop-shadow offsets turn and scale
+// with it: the node's transform moves from its content onto the group carrying the filter.
+const renderFilteredNode = async (node: SimpleNode, filters: CssFilter[], context: RenderContext): Promise<string> => {
+    const filterAttr = ` filter="url(#${ensureCssFilter(filters, node, context)})"`;
+    if (!node.transform) {
+        return `<g${filterAttr}>${await renderNodeContent(node, context)}</g>`;
+    }
+    // The backdrop is drawn from what lies behind, in the parent's space
+    const backdrop = node.kind === 'box' ? await renderBackdrop(node, context) : '';
+    const content = await renderNodeContent({ ...node, transform: undefined }, context);
+    return `${backdrop}<g transform="${formatMatrix(node.transform)}"${filterAttr}>${content}</g>`;
+};
+
+const renderNodeContent = async (node: SimpleNode, context: RenderContext): Promise<string> => {
     if (node.kind === 'text') {
-        return renderTextNode(node);
+        return renderTextNode(node, context);
     }
     if (node.kind === 'icon') {
         return renderIconNode(node);
@@ -1089,6 +4026,9 @@ const renderNode = async (node: SimpleNode, context: RenderContext): Promise<str
     if (node.kind === 'image') {
         return await renderImageNode(node, context);
     }
+    if (node.kind === 'svg') {
+        return renderSvgNode(node);
+    }
     return await renderBoxNode(node, context);
 };
 
@@ -1099,12 +4039,15 @@ const createStyleDef = (css: string): string => {
 
 const renderBoxNode = async (node: BoxNode, context: RenderContext): Promise<string> => {
     const path = roundedRectPath(node.x, node.y, node.width, node.height, node.borderRadius);
-    const fillAttr = resolveFill(node.background, context);
-    const strokeAttr = resolveStroke(node.borders);
-    const filterAttr = resolveShadows(node.shadows, context);
+    const fillAttr = resolveFill(node.background, context, node);
+    // Shadows ride on the box shape as effects when it has a fill to carry them
+    const hasOwnFill = fillAttr !== 'transparent' && !node.backgroundClip;
+    const filterAttr = resolveShadows(node.shadows, context, node, hasOwnFill);
     const opacityAttr = node.opacity !== 1 ? ` opacity="${formatNumber(node.opacity)}"` : '';
     const classAttr = node.className ? ` class="${escapeAttribute(node.className)}"` : '';
     const dataTagAttr = ` data-tag="${escapeAttribute(node.tagName)}"`;
+    const transformAttr = node.transform ? ` transform="${formatMatrix(node.transform)}"` : '';
+    const isolationAttr = node.isolated ? ' style="isolation:isolate"' : '';
 
     // Optional clipPath for overflow: hidden boxes
     const clipId = node.overflowHidden ? ensureClipPath(node, context) : null;
@@ -1114,48 +4057,141 @@ const renderBoxNode = async (node: BoxNode, context: RenderContext): Promise<str
         node.children.map((child) => renderNode(child, context))
     )).join('');
 
-    const filterString = filterAttr ? ` filter="url(#${filterAttr})"` : '';
-    const strokeString = strokeAttr ? ` ${strokeAttr}` : '';
+    const filterString = filterAttr && hasOwnFill ? ` filter="url(#${filterAttr})"` : '';
+    const shadowContent = filterAttr && !hasOwnFill ? `<path d="${path}" fill="#000000" filter="url(#${filterAttr})" />` : '';
 
     // Duplicate the class onto the shape so class-based selectors can target the geometry directly.
     const shapeClassAttr = node.className ? ` class="${escapeAttribute(node.className)}"` : '';
 
-    // Render background image if present
-    let backgroundImageContent = '';
-    if (node.backgroundImage) {
-        // Convert external URLs to base64 for Figma compatibility
-        const convertedImageUrl = await maybeConvertImageUrl(node.backgroundImage);
+    // CSS paint order: color, image layers bottom to top, then the border on top of them
+    const colorContent = node.backgroundClip
+        ? `<path d="${roundedRectPath(node.backgroundClip.rect.x, node.backgroundClip.rect.y, node.backgroundClip.rect.width, node.backgroundClip.rect.height, node.backgroundClip.radius)}" fill="${fillAttr}" />`
+        : '';
+    const layersContent = (await Promise.all((node.backgroundLayers ?? []).map((layer) => renderBackgroundLayer(layer, context)))).join('');
+    const borderContent = renderBorders(node, context);
+    const backdropContent = await renderBackdrop(node, context);
+
+    return `${backdropContent}<g${transformAttr}${opacityAttr}${isolationAttr}${classAttr}${dataTagAttr}${clipAttr}>` +
+        `${shadowContent}<path d="${path}" fill="${node.backgroundClip ? 'transparent' : fillAttr}"${filterString}${shapeClassAttr} />` +
+        `${colorContent}${layersContent}${borderContent}` +
+        `${childrenContent}</g>`;
+};
 
-        // Map background-size to preserveAspectRatio
-        let preserveAspectRatio = 'none'; // default for 'auto'
-        if (node.backgroundSize === 'contain') {
-            preserveAspectRatio = 'xMidYMid meet';
-        } else if (node.backgroundSize === 'cover') {
-            preserveAspectRatio = 'xMidYMid slice';
-        }
+// backdrop-filter: the filtered copy of everything painted behind the box, clipped to its shape.
+// It sits just before the box's group, so it shares the ancestors' coordinate space.
+const renderBackdrop = async (node: BoxNode, context: RenderContext): Promise<string> => {
+    const backdrop = context.backdrops.get(node);
+    if (!backdrop || !node.backdropFilters) {
+        return '';
+    }
+    const content = await renderNode(backdrop, context);
+    const filterId = ensureCssFilter(node.backdropFilters, node, context, true);
+    const clipId = `clip-${context.filterIndex++}`;
+    const transformAttr = node.transform ? ` transform="${formatMatrix(node.transform)}"` : '';
+    context.defs.push(
+        `<clipPath id="${clipId}" clipPathUnits="userSpaceOnUse"><path d="${roundedRectPath(node.x, node.y, node.width, node.height, node.borderRadius)}"${transformAttr} /></clipPath>`,
+    );
+    const opacityAttr = node.opacity !== 1 ? ` opacity="${formatNumber(node.opacity)}"` : '';
+    return `<g clip-path="url(#${clipId})"${opacityAttr} data-backdrop-filter><g filter="url(#${filterId})">${content}</g></g>`;
+};
+
+// Paint one background layer inside its clip box: a single tile, or a <pattern> when it repeats
+const renderBackgroundLayer = async (layer: BackgroundLayer, context: RenderContext): Promise<string> => {
+    const intrinsic = layer.image.kind === 'url' ? await loadImageSize(layer.image.url) : null;
+    const tile = resolveBackgroundTile(layer, intrinsic);
+    if (tile.width <= 0 || tile.height <= 0 || layer.clip.rect.width <= 0 || layer.clip.rect.height <= 0) {
+        return '';
+    }
 
-        // Check if we need clip path for rounded corners
-        const hasRoundedCorners = node.borderRadius.topLeft > 0 || node.borderRadius.topRight > 0 ||
-            node.borderRadius.bottomRight > 0 || node.borderRadius.bottomLeft > 0;
+    const { image } = layer;
+    const paintTile = (box: BoxRect) =>
+        image.kind === 'url'
+            ? `<rect x="${formatNumber(box.x)}" y="${formatNumber(box.y)}" width="${formatNumber(box.width)}" height="${formatNumber(box.height)}" fill="${useImage(image.url, box, intrinsic, context)}" />`
+            : `<rect x="${formatNumber(box.x)}" y="${formatNumber(box.y)}" width="${formatNumber(box.width)}" height="${formatNumber(box.height)}" fill="${resolveFill(image, context, box)}" />`;
 
-        let imgClipAttr = '';
-        if (hasRoundedCorners) {
-            const imgClipId = `imgclip-${context.filterIndex++}`;
-            const d = roundedRectPath(node.x, node.y, node.width, node.height, node.borderRadius);
-            context.defs.push(`<clipPath id="${imgClipId}" clipPathUnits="userSpaceOnUse"><path d="${d}" /></clipPath>`);
-            imgClipAttr = ` clip-path="url(#${imgClipId})"`;
-        }
+    const clipId = `bgclip-${context.filterIndex++}`;
+    const { rect: clipRect, radius } = layer.clip;
+    context.defs.push(`<clipPath id="${clipId}" clipPathUnits="userSpaceOnUse"><path d="${roundedRectPath(clipRect.x, clipRect.y, clipRect.width, clipRect.height, radius)}" /></clipPath>`);
 
-        backgroundImageContent = `<image x="${formatNumber(node.x)}" y="${formatNumber(node.y)}" width="${formatNumber(node.width)}" height="${formatNumber(node.height)}" href="${escapeAttribute(convertedImageUrl)}" preserveAspectRatio="${preserveAspectRatio}"${imgClipAttr} />`;
+    if (tile.stepX === null && tile.stepY === null) {
+        return `<g clip-path="url(#${clipId})">${paintTile(tile)}</g>`;
     }
 
-    return `<g${opacityAttr}${classAttr}${dataTagAttr}${clipAttr}>` +
-        `<path d="${path}" fill="${fillAttr}"${strokeString}${filterString}${shapeClassAttr} />` +
-        `${backgroundImageContent}` +
-        `${childrenContent}</g>`;
+    // Repeating axes cover the clip box; a non-repeating axis keeps the single tile's extent
+    const patternId = `pattern-${context.gradientIndex++}`;
+    const patternWidth = tile.stepX ?? tile.width;
+    const patternHeight = tile.stepY ?? tile.height;
+    context.defs.push(
+        `<pattern id="${patternId}" patternUnits="userSpaceOnUse" x="${formatNumber(tile.x)}" y="${formatNumber(tile.y)}" width="${formatNumber(patternWidth)}" height="${formatNumber(patternHeight)}">` +
+            `${paintTile({ x: 0, y: 0, width: tile.width, height: tile.height })}</pattern>`,
+    );
+    const x = tile.stepX === null ? tile.x : clipRect.x;
+    const y = tile.stepY === null ? tile.y : clipRect.y;
+    const width = tile.stepX === null ? tile.width : clipRect.width;
+    const height = tile.stepY === null ? tile.height : clipRect.height;
+    return `<g clip-path="url(#${clipId})"><rect x="${formatNumber(x)}" y="${formatNumber(y)}" width="${formatNumber(width)}" height="${formatNumber(height)}" fill="url(#${patternId})" /></g>`;
+};
+
+// Decorations and text-shadow wrap the text in a group: underlines and overlines paint below the
+// glyphs, line-through above, and the shadow filter covers both like CSS does.
+const renderTextNode = (node: TextNode, context: RenderContext): string => {
+    const { text } = node;
+    const decorations = (text.lines ?? []).flatMap((line) => line.decorations ?? []);
+    if (!decorations.length && !text.shadows) {
+        return renderTextGlyphs(node);
+    }
+    const transformAttr = node.transform ? ` transform="${formatMatrix(node.transform)}"` : '';
+    const filterId = text.shadows ? resolveShadows(text.shadows, context, textBounds(node), true) : null;
+    const filterAttr = filterId ? ` filter="url(#${filterId})"` : '';
+    const below = decorations.filter(({ line }) => line !== 'line-through').map((stroke) => renderDecorationStroke(stroke, node.opacity));
+    const above = decorations.filter(({ line }) => line === 'line-through').map((stroke) => renderDecorationStroke(stroke, node.opacity));
+    return `<g${transformAttr}${filterAttr}>${below.join('')}${renderTextGlyphs({ ...node, transform: undefined })}${above.join('')}</g>`;
+};
+
+// Area the glyphs of every line cover, padded by an em around the baselines
+const textBounds = (node: TextNode): BoxRect => {
+    const { text } = node;
+    const lines = text.lines?.length ? text.lines : [{ x: node.x, y: node.y, width: node.width }];
+    const anchorShift = text.textAnchor === 'middle' ? 0.5 : text.textAnchor === 'end' ? 1 : 0;
+    const left = Math.min(...lines.map((line) => line.x - line.width * anchorShift));
+    const right = Math.max(...lines.map((line) => line.x + line.width * (1 - anchorShift)));
+    const top = Math.min(...lines.map((line) => line.y)) - text.fontSize;
+    const bottom = Math.max(...lines.map((line) => line.y)) + text.fontSize / 2;
+    return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Dotted and dashed strokes use the thickness as their unit; double draws two thinner lines
+// and wavy a sine-like curve, both centered on the decoration's position.
+const renderDecorationStroke = (stroke: TextDecorationStroke, nodeOpacity: number): string => {
+    const { x1, x2, y, thickness, style } = stroke;
+    const opacity = nodeOpacity * stroke.opacity;
+    const attrs = `stroke="${stroke.color}"${opacity !== 1 ? ` stroke-opacity="${formatNumber(opacity)}"` : ''} fill="none"`;
+    const line = (lineY: number, width: number, extra = '') =>
+        `<line x1="${formatNumber(x1)}" y1="${formatNumber(lineY)}" x2="${formatNumber(x2)}" y2="${formatNumber(lineY)}" ${attrs} stroke-width="${formatNumber(width)}"${extra} />`;
+
+    if (style === 'double') {
+        return line(y - thickness, thickness * 0.75) + line(y + thickness, thickness * 0.75);
+    }
+    if (style === 'dotted') {
+        return line(y, thickness, ` stroke-dasharray="0 ${formatNumber(thickness * 2)}" stroke-linecap="round"`);
+    }
+    if (style === 'dashed') {
+        return line(y, thickness, ` stroke-dasharray="${formatNumber(thickness * 3)} ${formatNumber(thickness * 2)}"`);
+    }
+    if (style === 'wavy') {
+        const amplitude = thickness * 1.5;
+        const step = thickness * 3;
+        let d = `M${formatNumber(x1)} ${formatNumber(y)}`;
+        for (let x = x1, up = true; x < x2; x += step, up = !up) {
+            const end = Math.min(x + step, x2);
+            d += ` Q${formatNumber((x + end) / 2)} ${formatNumber(y + (up ? -amplitude : amplitude) * 2)} ${formatNumber(end)} ${formatNumber(y)}`;
+        }
+        return `<path d="${d}" ${attrs} stroke-width="${formatNumber(thickness)}" />`;
+    }
+    return line(y, thickness);
 };
 
-const renderTextNode = (node: TextNode): string => {
+const renderTextGlyphs = (node: TextNode): string => {
     const { text } = node;
     const combinedOpacity = node.opacity * text.opacity;
     const opacityAttr = combinedOpacity !== 1 ? ` fill-opacity="${formatNumber(combinedOpacity)}"` : '';
@@ -1163,17 +4199,90 @@ const renderTextNode = (node: TextNode): string => {
     const classAttr = node.className ? ` class="${escapeAttribute(node.className)}"` : '';
     const dataTagAttr = ` data-tag="${escapeAttribute(node.tagName)}"`;
     const fontWeightAttr = normalizeFontWeight(text.fontWeight);
-    return `<text x="${formatNumber(node.x)}" y="${formatNumber(node.y)}" font-family="${escapeAttribute(text.fontFamily)}" font-size="${formatNumber(text.fontSize)}" ${fontWeightAttr} font-style="${escapeAttribute(text.fontStyle)}" text-anchor="${text.textAnchor}" dominant-baseline="alphabetic" xml:space="preserve" fill="${text.color}"${opacityAttr}${letterSpacingAttr}${classAttr}${dataTagAttr}>${escapeText(text.content)}</text>`;
+    const transformAttr = node.transform ? ` transform="${formatMatrix(node.transform)}"` : '';
+    if (text.outlines) {
+        return renderTextOutlines(text, node, `${transformAttr}${classAttr}${dataTagAttr}`);
+    }
+    const content = renderTextLines(text, node);
+    return `<text${transformAttr} x="${formatNumber(node.x)}" y="${formatNumber(node.y)}" font-family="${escapeAttribute(text.fontFamily)}" font-size="${formatNumber(text.fontSize)}" ${fontWeightAttr} font-style="${escapeAttribute(text.fontStyle)}" text-anchor="${text.textAnchor}" dominant-baseline="alphabetic" xml:space="preserve" fill="${text.color}"${opacityAttr}${letterSpacingAttr}${classAttr}${dataTagAttr}>${content}</text>`;
+};
+
+// Outlined text keeps its string as data-text and <title> so it stays searchable and accessible.
+const renderTextOutlines = (text: TextPayload, node: TextNode, groupAttrs: string): string => {
+    const paths = (text.outlines ?? [])
+        .map((outline) => {
+            const opacity = node.opacity * outline.opacity;
+            const opacityAttr = opacity !== 1 ? ` fill-opacity="${formatNumber(opacity)}"` : '';
+            return `<path d="${outline.d}" fill="${outline.color}"${opacityAttr} />`;
+        })
+        .join('');
+    return `<g${groupAttrs} data-text="${escapeAttribute(text.content)}"><title>${escapeText(text.content)}</title>${paths}</g>`;
+};
+
+// A single line renders inline; wrapped paragraphs get one <tspan x dy> per line so the
+// whole block stays one editable text layer.
+const renderTextLines = (text: TextPayload, node: TextNode): string => {
+    const renderLineContent = (line: TextLine) =>
+        line.runs?.length ? line.runs.map((run) => renderTextRun(run, text, node.opacity)).join('') : escapeText(line.content);
+
+    const lines = text.lines ?? [];
+    if (!lines.length) {
+        return escapeText(text.content);
+    }
+    if (lines.length === 1) {
+        return renderLineContent(lines[0]);
+    }
+    let previousY = node.y;
+    return lines
+        .map((line) => {
+            const dy = line.y - previousY;
+            previousY = line.y;
+            const dyAttr = dy !== 0 ? ` dy="${formatNumber(dy)}"` : '';
+            return `<tspan x="${formatNumber(line.x)}"${dyAttr}>${renderLineContent(line)}</tspan>`;
+        })
+        .join('');
+};
+
+// Emit a run as a <tspan>, only repeating the attributes that differ from the parent <text>.
+const renderTextRun = (run: TextRun, text: TextPayload, nodeOpacity: number): string => {
+    if (isSameRunStyle(run, text)) {
+        return escapeText(run.content);
+    }
+    const attrs: string[] = [];
+    if (run.color !== text.color) {
+        attrs.push(`fill="${run.color}"`);
+    }
+    if (run.opacity !== text.opacity) {
+        attrs.push(`fill-opacity="${formatNumber(nodeOpacity * run.opacity)}"`);
+    }
+    if (run.fontFamily !== text.fontFamily) {
+        attrs.push(`font-family="${escapeAttribute(run.fontFamily)}"`);
+    }
+    if (run.fontSize !== text.fontSize) {
+        attrs.push(`font-size="${formatNumber(run.fontSize)}"`);
+    }
+    if (String(run.fontWeight) !== String(text.fontWeight)) {
+        attrs.push(normalizeFontWeight(run.fontWeight));
+    }
+    if (run.fontStyle !== text.fontStyle) {
+        attrs.push(`font-style="${escapeAttribute(run.fontStyle)}"`);
+    }
+    if (run.letterSpacing !== text.letterSpacing) {
+        attrs.push(`letter-spacing="${formatNumber(run.letterSpacing)}"`);
+    }
+    return `<tspan ${attrs.join(' ')}>${escapeText(run.content)}</tspan>`;
 };
 
 const renderIconNode = (node: IconNode): string => {
     const opacityAttr = node.opacity !== 1 ? ` opacity="${formatNumber(node.opacity)}"` : '';
     const classAttr = node.className ? ` class="${escapeAttribute(node.className)}"` : '';
     const dataTagAttr = ` data-tag="${escapeAttribute(node.tagName)}"`;
-    const dataIconAttr = ` data-icon="${escapeAttribute(node.iconName)}"`;
+    const dataIconAttr = ` data-icon="${escapeAttribute(node.iconName)}"${node.missing ? ' data-icon-missing="true"' : ''}`;
 
     // Parse viewBox to get original dimensions
-    const viewBoxParts = node.viewBox.split(' ').map(Number);
+    const viewBoxParts = node.viewBox.split(/[\s,]+/).map(Number);
+    const origX = viewBoxParts[0] || 0;
+    const origY = viewBoxParts[1] || 0;
     const origWidth = viewBoxParts[2] || 24;
     const origHeight = viewBoxParts[3] || 24;
 
@@ -1185,10 +4294,26 @@ const renderIconNode = (node: IconNode): string => {
     // Center the icon in the allocated space
     const scaledWidth = origWidth * scale;
     const scaledHeight = origHeight * scale;
-    const offsetX = node.x + (node.width - scaledWidth) / 2;
-    const offsetY = node.y + (node.height - scaledHeight) / 2;
+    const offsetX = node.x + (node.width - scaledWidth) / 2 - origX * scale;
+    const offsetY = node.y + (node.height - scaledHeight) / 2 - origY * scale;
+
+    const strokeAttr = node.weightStroke
+        ? ` stroke="${node.color}" stroke-width="${formatNumber(node.weightStroke)}" stroke-linejoin="round"`
+        : '';
+    const glyphContent = node.markup
+        ? `<g fill="${node.color}">${node.markup.replace(/currentColor/g, node.color)}</g>`
+        : `<path d="${node.svgPath}" fill="${node.color}"${strokeAttr}/>`;
+
+    // The CSS transform goes first so it applies on top of the fit-to-box placement
+    const cssTransform = node.transform ? `${formatMatrix(node.transform)} ` : '';
+    return `<g transform="${cssTransform}translate(${formatNumber(offsetX)},${formatNumber(offsetY)}) scale(${formatNumber(scale)})"${opacityAttr}${classAttr}${dataTagAttr}${dataIconAttr}>${glyphContent}</g>`;
+};
 
-    return `<g transform="translate(${formatNumber(offsetX)},${formatNumber(offsetY)}) scale(${formatNumber(scale)})"${opacityAttr}${classAttr}${dataTagAttr}${dataIconAttr}><path d="${node.svgPath}" fill="${node.color}"/></g>`;
+const renderSvgNode = (node: SvgNode): string => {
+    const opacityAttr = node.opacity !== 1 ? ` opacity="${formatNumber(node.opacity)}"` : '';
+    const classAttr = node.className ? ` class="${escapeAttribute(node.className)}"` : '';
+    const transformAttr = node.transform ? ` transform="${formatMatrix(node.transform)}"` : '';
+    return `<g${transformAttr}${opacityAttr}${classAttr} data-tag="svg">${node.markup}</g>`;
 };
 
 const renderImageNode = async (node: ImageNode, context: RenderContext): Promise<string> => {
@@ -1197,30 +4322,126 @@ const renderImageNode = async (node: ImageNode, context: RenderContext): Promise
     const dataTagAttr = ` data-tag="${escapeAttribute(node.tagName)}"`;
     const dataAltAttr = node.alt ? ` data-alt="${escapeAttribute(node.alt)}"` : '';
 
-    // Convert external URLs to base64 for Figma compatibility
-    const convertedSrc = await maybeConvertImageUrl(node.src);
-
-    // Map object-fit to preserveAspectRatio
-    let preserveAspectRatio = 'xMidYMid meet'; // default for 'contain'
-    if (node.objectFit === 'cover') {
-        preserveAspectRatio = 'xMidYMid slice';
-    } else if (node.objectFit === 'fill') {
-        preserveAspectRatio = 'none';
-    } else if (node.objectFit === 'none') {
-        preserveAspectRatio = 'none';
-    }
-
-    // Check if we need clip path for rounded corners
-    const hasRoundedCorners = node.borderRadius.topLeft > 0 || node.borderRadius.topRight > 0 ||
-        node.borderRadius.bottomRight > 0 || node.borderRadius.bottomLeft > 0;
+    // The image is placed exactly as object-fit and object-position lay it out; sources without
+    // an intrinsic size (an SVG without width/height) stretch over the box as in CSS
+    const intrinsic = node.naturalWidth && node.naturalHeight ? { width: node.naturalWidth, height: node.naturalHeight } : await loadImageSize(node.src);
+    const placement = intrinsic ? placeObjectContent({ ...node, naturalWidth: intrinsic.width, naturalHeight: intrinsic.height }) : null;
+    const area = placement ?? { x: node.x, y: node.y, width: node.width, height: node.height };
+    const fill = useImage(node.src, area, intrinsic, context);
+    const overflows =
+        area.x < node.x - 0.01 ||
+        area.y < node.y - 0.01 ||
+        area.x + area.width > node.x + node.width + 0.01 ||
+        area.y + area.height > node.y + node.height + 0.01;
+
+    // Clip to the box for rounded corners and for content that spills past it
+    const hasRoundedCorners = hasBorderRadius(node.borderRadius);
 
     let clipPathAttr = '';
-    if (hasRoundedCorners) {
+    if (hasRoundedCorners || overflows) {
         const clipId = ensureImageClipPath(node, context);
         clipPathAttr = ` clip-path="url(#${clipId})"`;
     }
 
-    return `<image x="${formatNumber(node.x)}" y="${formatNumber(node.y)}" width="${formatNumber(node.width)}" height="${formatNumber(node.height)}" href="${escapeAttribute(convertedSrc)}" preserveAspectRatio="${preserveAspectRatio}"${opacityAttr}${classAttr}${dataTagAttr}${dataAltAttr}${clipPathAttr} />`;
+    const transformAttr = node.transform ? ` transform="${formatMatrix(node.transform)}"` : '';
+
+    return `<rect${transformAttr} x="${formatNumber(area.x)}" y="${formatNumber(area.y)}" width="${formatNumber(area.width)}" height="${formatNumber(area.height)}" fill="${fill}"${opacityAttr}${classAttr}${dataTagAttr}${dataAltAttr}${clipPathAttr} />`;
+};
+
+// Images are painted as rects filled with one pattern per source, the way Figma exports image
+// fills: the pattern maps the source onto each rect's bounding box, so every use shares it.
+const useImage = (src: string, box: BoxRect, intrinsic: { width: number; height: number } | null, context: RenderContext): string => {
+    let use = context.images.get(src);
+    if (!use) {
+        use = { id: `image-${context.images.size}`, uses: 0, width: 0, height: 0, intrinsic };
+        context.images.set(src, use);
+    }
+    use.uses += 1;
+    use.width = Math.max(use.width, box.width);
+    use.height = Math.max(use.height, box.height);
+    use.intrinsic ??= intrinsic;
+    return `url(#${use.id})`;
+};
+
+// The pattern and image defs for every source, encoded for the largest box it was painted into
+const embedImages = async (context: RenderContext, encoding: ImageEncoding): Promise<ImageReport> => {
+    const entries = await Promise.all(
+        Array.from(context.images, async ([src, use]): Promise<ImageReportEntry> => {
+            const encoded = await encodeImage(src, use, encoding);
+            const width = encoded.width ?? use.intrinsic?.width ?? null;
+            const height = encoded.height ?? use.intrinsic?.height ?? null;
+            // formatNumber's three decimals are too coarse for the scale of a large source
+            const scaleAttr = width && height ? ` transform="scale(${(1 / width).toPrecision(6)} ${(1 / height).toPrecision(6)})"` : '';
+            const image = `<image id="${use.id}-data" width="${width ?? 1}" height="${height ?? 1}" preserveAspectRatio="none" href="${escapeAttribute(encoded.href)}" />`;
+            context.defs.push(
+                `<pattern id="${use.id}" patternContentUnits="objectBoundingBox" width="1" height="1"><use href="#${use.id}-data"${scaleAttr} /></pattern>${image}`,
+            );
+            return {
+                source: src,
+                uses: use.uses,
+                naturalWidth: use.intrinsic?.width ?? null,
+                naturalHeight: use.intrinsic?.height ?? null,
+                width,
+                height,
+                mimeType: encoded.mimeType,
+                originalBytes: encoded.originalBytes,
+                embeddedBytes: image.length,
+            };
+        }),
+    );
+    // A captured iframe's SVG carries its own images: they are listed with the page's, and the
+    // frame's entry keeps only the bytes of the rest of its markup
+    const nested = entries.flatMap((entry) => {
+        const frame = context.frameReports.get(entry.source);
+        if (!frame) {
+            return [];
+        }
+        entry.embeddedBytes = Math.max(0, entry.embeddedBytes - frame.embeddedBytes);
+        return frame.images;
+    });
+    const images = mergeReportEntries([...entries, ...nested]);
+    return {
+        images,
+        uses: images.reduce((total, entry) => total + entry.uses, 0),
+        originalBytes: images.reduce((total, entry) => total + (entry.originalBytes ?? 0), 0),
+        embeddedBytes: images.reduce((total, entry) => total + entry.embeddedBytes, 0),
+    };
+};
+
+// One entry per source; a source embedded by both the page and a frame is stored once per SVG
+const mergeReportEntries = (entries: ImageReportEntry[]): ImageReportEntry[] => {
+    const merged = new Map<string, ImageReportEntry>();
+    entries.forEach((entry) => {
+        const existing = merged.get(entry.source);
+        if (existing) {
+            existing.uses += entry.uses;
+            existing.embeddedBytes += entry.embeddedBytes;
+        } else {
+            merged.set(entry.source, { ...entry });
+        }
+    });
+    return Array.from(merged.values());
+};
+
+// The rectangle the content covers, in root coordinates; object-position percentages resolve
+// against the space left over, like background-position
+const placeObjectContent = (node: ImageNode): BoxRect | null => {
+    const { naturalWidth, naturalHeight } = node;
+    if (!naturalWidth || !naturalHeight || node.objectFit === 'fill') {
+        return null;
+    }
+    const contain = Math.min(node.width / naturalWidth, node.height / naturalHeight);
+    const scales: Record<Exclude<ImageNode['objectFit'], 'fill'>, number> = {
+        contain,
+        cover: Math.max(node.width / naturalWidth, node.height / naturalHeight),
+        none: 1,
+        'scale-down': Math.min(1, contain),
+    };
+    const scale = scales[node.objectFit];
+    const width = naturalWidth * scale;
+    const height = naturalHeight * scale;
+    const offset = resolvePosition(node.objectPosition ?? '50% 50%', node.width - width, node.height - height);
+    return { x: node.x + offset.x, y: node.y + offset.y, width, height };
 };
 
 const ensureImageClipPath = (node: ImageNode, context: RenderContext): string => {
@@ -1230,7 +4451,7 @@ const ensureImageClipPath = (node: ImageNode, context: RenderContext): string =>
     return id;
 };
 
-const resolveFill = (fill: Fill | null, context: RenderContext): string => {
+const resolveFill = (fill: Fill | null, context: RenderContext, box: BoxRect): string => {
     if (!fill) {
         return 'transparent';
     }
@@ -1240,7 +4461,7 @@ const resolveFill = (fill: Fill | null, context: RenderContext): string => {
         }
         return applyAlpha(fill.color, fill.opacity);
     }
-    const id = ensureGradient(fill, context);
+    const id = fill.kind === 'conic-gradient' ? ensureConicPattern(fill, context, box) : ensureGradient(fill, context, box);
     return `url(#${id})`;
 };
 
@@ -1254,80 +4475,407 @@ const applyAlpha = (hexColor: string, alpha: number): string => {
     return hexColor;
 };
 
-const resolveStroke = (borders: BorderSet | null): string => {
+// Styles a single inset stroke can draw when all four sides match
+const STROKED_BORDER_STYLES = new Set(['solid', 'dashed', 'dotted']);
+// Dash and gap length per unit of border width, close to how browsers draw `dashed`
+const BORDER_DASH_RATIO = 3;
+
+// Borders are painted inside the border box like CSS does. Four matching sides become one inset
+// stroke (imported as a regular stroke); anything else is drawn side by side.
+const renderBorders = (node: BoxNode, context: RenderContext): string => {
+    const { borders } = node;
     if (!borders) {
         return '';
     }
-    const widths = [borders.top.width, borders.right.width, borders.bottom.width, borders.left.width];
-    const colors = [borders.top.color, borders.right.color, borders.bottom.color, borders.left.color];
-    const opacities = [borders.top.opacity, borders.right.opacity, borders.bottom.opacity, borders.left.opacity];
+    const sides = BORDER_SIDE_NAMES.map((name) => borders[name]);
+    const [first] = sides;
+    const uniform = sides.every(
+        (side) => side.width === first.width && side.color === first.color && side.opacity === first.opacity && side.style === first.style,
+    );
+    if (uniform) {
+        if (first.width <= 0) {
+            return '';
+        }
+        if (STROKED_BORDER_STYLES.has(first.style)) {
+            return renderBorderStroke(node, node.borderRadius, first);
+        }
+    }
+    return BORDER_SIDE_NAMES.map((name) => renderBorderSide(node, name, context)).join('');
+};
 
-    const uniformWidth = widths.every((width) => width === widths[0]);
-    const uniformColor = colors.every((color) => color === colors[0]);
-    const uniformOpacity = opacities.every((opacity) => opacity === opacities[0]);
+const BORDER_SIDE_NAMES = ['top', 'right', 'bottom', 'left'] as const;
+type BorderSideName = (typeof BORDER_SIDE_NAMES)[number];
+
+// A stroke of the side's width centred half a width inside the box, so it covers exactly the border band
+const renderBorderStroke = (box: BoxRect, radius: BorderRadius, side: BorderSide): string => {
+    const half = side.width / 2;
+    const insets = { top: half, right: half, bottom: half, left: half };
+    const rect = insetRect(box, insets);
+    const d = roundedRectPath(rect.x, rect.y, rect.width, rect.height, insetBorderRadius(radius, insets));
+    const strokeColor = side.opacity === 1 ? side.color : applyAlpha(side.color, side.opacity);
+    let dashAttrs = '';
+    if (side.style === 'dashed') {
+        dashAttrs = ` stroke-dasharray="${formatNumber(side.width * BORDER_DASH_RATIO)} ${formatNumber(side.width * BORDER_DASH_RATIO)}"`;
+    } else if (side.style === 'dotted') {
+        dashAttrs = ` stroke-dasharray="0 ${formatNumber(side.width * 2)}" stroke-linecap="round"`;
+    }
+    return `<path d="${d}" fill="none" stroke="${strokeColor}" stroke-width="${formatNumber(side.width)}"${dashAttrs} shape-rendering="geometricPrecision" />`;
+};
 
-    if (!uniformWidth || !uniformColor || !uniformOpacity) {
+// One side, clipped to the region it owns: its edge band plus the corners up to the line from the
+// outer to the inner corner, where CSS switches between adjacent border colors.
+const renderBorderSide = (node: BoxNode, name: BorderSideName, context: RenderContext): string => {
+    const borders = node.borders!;
+    const side = borders[name];
+    if (side.width <= 0) {
         return '';
     }
 
-    if (widths[0] === 0) {
-        return '';
+    const clipId = `border-${context.filterIndex++}`;
+    context.defs.push(`<clipPath id="${clipId}" clipPathUnits="userSpaceOnUse"><path d="${borderSideRegionPath(node, borders, node.borderRadius, name)}" /></clipPath>`);
+
+    const topLeft = name === 'top' || name === 'left';
+    const ring = (from: number, to: number, dark: boolean) => {
+        const color = dark ? darkenColor(side.color) : side.color;
+        const opacityAttr = side.opacity !== 1 ? ` fill-opacity="${formatNumber(side.opacity)}"` : '';
+        return `<path d="${borderRingPath(node, borders, node.borderRadius, from, to)}" fill="${color}"${opacityAttr} fill-rule="evenodd" />`;
+    };
+
+    let content: string;
+    switch (side.style) {
+        case 'dashed':
+        case 'dotted':
+            content = renderBorderStroke(node, node.borderRadius, side);
+            break;
+        case 'double':
+            content = ring(0, 1 / 3, false) + ring(2 / 3, 1, false);
+            break;
+        case 'groove':
+            content = ring(0, 0.5, topLeft) + ring(0.5, 1, !topLeft);
+            break;
+        case 'ridge':
+            content = ring(0, 0.5, !topLeft) + ring(0.5, 1, topLeft);
+            break;
+        case 'inset':
+            content = ring(0, 1, topLeft);
+            break;
+        case 'outset':
+            content = ring(0, 1, !topLeft);
+            break;
+        default:
+            content = ring(0, 1, false);
+    }
+    return `<g clip-path="url(#${clipId})">${content}</g>`;
+};
+
+// The band between two fractions of each side's border width, e.g. 0-1/3 for the outer line of `double`
+const borderRingPath = (box: BoxRect, borders: BorderSet, radius: BorderRadius, from: number, to: number): string => {
+    const scaled = (fraction: number) => ({
+        top: borders.top.width * fraction,
+        right: borders.right.width * fraction,
+        bottom: borders.bottom.width * fraction,
+        left: borders.left.width * fraction,
+    });
+    const shape = (fraction: number) => {
+        const insets = scaled(fraction);
+        const rect = insetRect(box, insets);
+        return roundedRectPath(rect.x, rect.y, rect.width, rect.height, insetBorderRadius(radius, insets));
+    };
+    return `${shape(from)} ${shape(to)}`;
+};
+
+const borderSideRegionPath = (box: BoxRect, borders: BorderSet, radius: BorderRadius, name: BorderSideName): string => {
+    const right = box.x + box.width;
+    const bottom = box.y + box.height;
+    // Edge from start corner to end corner, the inward normal, and the widths meeting at each corner
+    const geometry = {
+        top: { start: [box.x, box.y], end: [right, box.y], normal: [0, 1], startWidth: borders.left.width, endWidth: borders.right.width, radii: [radius.topLeft.y, radius.topRight.y] },
+        right: { start: [right, box.y], end: [right, bottom], normal: [-1, 0], startWidth: borders.top.width, endWidth: borders.bottom.width, radii: [radius.topRight.x, radius.bottomRight.x] },
+        bottom: { start: [right, bottom], end: [box.x, bottom], normal: [0, -1], startWidth: borders.right.width, endWidth: borders.left.width, radii: [radius.bottomRight.y, radius.bottomLeft.y] },
+        left: { start: [box.x, bottom], end: [box.x, box.y], normal: [1, 0], startWidth: borders.bottom.width, endWidth: borders.top.width, radii: [radius.bottomLeft.x, radius.topLeft.x] },
+    }[name];
+    const width = borders[name].width;
+    const { start, end, normal, startWidth, endWidth } = geometry;
+    const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+    const along = length > 0 ? [(end[0] - start[0]) / length, (end[1] - start[1]) / length] : [0, 0];
+    const point = (origin: number[], depth: number, shift: number) => [origin[0] + normal[0] * depth + along[0] * shift, origin[1] + normal[1] * depth + along[1] * shift];
+
+    // Deep enough to take in the rounded corners (clamped to half the box so the region stays clear
+    // of the opposite side), following the corner joins inward
+    const across = name === 'top' || name === 'bottom' ? box.height : box.width;
+    let depth = Math.max(width, Math.min(Math.max(...geometry.radii), across / 2));
+    const points = [start, end];
+    if ((depth * (startWidth + endWidth)) / width > length) {
+        // The joins meet before that depth
+        depth = (length * width) / (startWidth + endWidth);
+        points.push(point(start, depth, (depth * startWidth) / width));
+    } else {
+        points.push(point(end, depth, (-depth * endWidth) / width), point(start, depth, (depth * startWidth) / width));
     }
+    return `M ${points.map(([x, y]) => `${formatNumber(x)} ${formatNumber(y)}`).join(' L ')} Z`;
+};
 
-    const strokeColor = opacities[0] === 1 ? colors[0] : applyAlpha(colors[0], opacities[0]);
-    return `stroke="${strokeColor}" stroke-width="${formatNumber(widths[0])}" shape-rendering="geometricPrecision"`;
+// Shade for the dark half of groove/ridge/inset/outset borders
+const darkenColor = (color: string): string => {
+    if (!/^#[0-9a-f]{6}$/i.test(color)) {
+        return color;
+    }
+    const channel = (start: number) => Math.round((parseInt(color.slice(start, start + 2), 16) * 2) / 3);
+    return rgbToHex(channel(1), channel(3), channel(5));
 };
 
-const resolveShadows = (shadows: BoxShadow[], context: RenderContext): string | null => {
-    const usable = shadows.filter((shadow) => !shadow.inset);
-    if (!usable.length) {
+// Figma writes drop and inner shadows as these exact filter chains in its own SVG export and turns
+// them back into effects on import. Outer shadows are cut out of the box and inset shadows are kept
+// inside it, as CSS does. Without `includeSource` the filter yields the shadows alone, for boxes
+// whose own fill is transparent.
+const resolveShadows = (shadows: BoxShadow[], context: RenderContext, box: BoxRect, includeSource: boolean): string | null => {
+    if (!shadows.length) {
         return null;
     }
     const id = `shadow-${context.filterIndex++}`;
-    const shadowContent = usable
-        .map((shadow) => `<feDropShadow dx="${formatNumber(shadow.offsetX)}" dy="${formatNumber(shadow.offsetY)}" stdDeviation="${formatNumber(Math.max(shadow.blur, 0) / 2)}" flood-color="${shadow.color}" flood-opacity="${formatNumber(shadow.opacity)}" />`)
-        .join('');
-    context.defs.push(`<filter id="${id}" x="-50%" y="-50%" width="200%" height="200%" color-interpolation-filters="sRGB">${shadowContent}</filter>`);
+    const primitives = ['<feFlood flood-opacity="0" result="BackgroundImageFix" />'];
+    let base = 'BackgroundImageFix';
+    let effectIndex = 0;
+
+    // CSS lists the topmost shadow first
+    const ordered = [...shadows].reverse();
+    ordered
+        .filter((shadow) => !shadow.inset)
+        .forEach((shadow) => {
+            const result = `effect${++effectIndex}_dropShadow`;
+            primitives.push(...shadowPrimitives(shadow, result), `<feBlend mode="normal" in2="${base}" result="${result}" />`);
+            base = result;
+        });
+    if (includeSource) {
+        primitives.push(`<feBlend mode="normal" in="SourceGraphic" in2="${base}" result="shape" />`);
+        base = 'shape';
+    }
+    ordered
+        .filter((shadow) => shadow.inset)
+        .forEach((shadow) => {
+            const result = `effect${++effectIndex}_innerShadow`;
+            primitives.push(...shadowPrimitives(shadow, result), `<feBlend mode="normal" in2="${base}" result="${result}" />`);
+            base = result;
+        });
+
+    const reach = Math.max(...shadows.map((shadow) => Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY)) + shadow.blur + Math.max(shadow.spread, 0))) + 1;
+    context.defs.push(
+        `<filter id="${id}" x="${formatNumber(box.x - reach)}" y="${formatNumber(box.y - reach)}" width="${formatNumber(box.width + reach * 2)}" height="${formatNumber(box.height + reach * 2)}" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">` +
+            `${primitives.join('')}</filter>`,
+    );
+    return id;
+};
+
+// Shadow shape from the box's hard-edged alpha: spread via morphology, then offset, blur, cut-out
+// (drop) or inversion (inner), and finally the shadow color.
+const shadowPrimitives = (shadow: BoxShadow, result: string): string[] => {
+    const primitives = ['<feColorMatrix in="SourceAlpha" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 127 0" result="hardAlpha" />'];
+    // A positive spread grows an outer shadow but shrinks the lit hole of an inset one
+    const spread = shadow.inset ? -shadow.spread : shadow.spread;
+    if (spread) {
+        primitives.push(`<feMorphology radius="${formatNumber(Math.abs(spread))}" operator="${spread > 0 ? 'dilate' : 'erode'}" in="hardAlpha" result="${result}" />`);
+    }
+    const dxAttr = shadow.offsetX ? ` dx="${formatNumber(shadow.offsetX)}"` : '';
+    const dyAttr = shadow.offsetY ? ` dy="${formatNumber(shadow.offsetY)}"` : '';
+    primitives.push(`<feOffset${dxAttr}${dyAttr} />`);
+    if (shadow.blur > 0) {
+        primitives.push(`<feGaussianBlur stdDeviation="${formatNumber(shadow.blur / 2)}" />`);
+    }
+    primitives.push(shadow.inset ? '<feComposite in2="hardAlpha" operator="arithmetic" k2="-1" k3="1" />' : '<feComposite in2="hardAlpha" operator="out" />');
+
+    const channel = (start: number) => (/^#[0-9a-f]{6}$/i.test(shadow.color) ? formatNumber(parseInt(shadow.color.slice(start, start + 2), 16) / 255) : '0');
+    primitives.push(`<feColorMatrix type="matrix" values="0 0 0 0 ${channel(1)} 0 0 0 0 ${channel(3)} 0 0 0 0 ${channel(5)} 0 0 0 ${formatNumber(shadow.opacity)} 0" />`);
+    return primitives;
+};
+
+// CSS filter functions map one-to-one onto SVG primitives, chained in order. An element filter's
+// region grows around the node's bounding box by how far blurs and shadows reach; a backdrop
+// only needs the box itself, with blurred edges extended like browsers do.
+const ensureCssFilter = (filters: CssFilter[], box: BoxRect, context: RenderContext, backdrop = false): string => {
+    const id = `filter-${context.filterIndex++}`;
+    const primitives = filters.map((filter) => cssFilterPrimitive(filter, backdrop)).join('');
+
+    if (backdrop) {
+        const reach = Math.max(...filters.map((filter) => (filter.kind === 'blur' ? filter.radius * 3 : 0))) + 1;
+        context.defs.push(
+            `<filter id="${id}" x="${formatNumber(box.x - reach)}" y="${formatNumber(box.y - reach)}" width="${formatNumber(box.width + reach * 2)}" height="${formatNumber(box.height + reach * 2)}" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">${primitives}</filter>`,
+        );
+        return id;
+    }
+
+    const reach =
+        filters.reduce((total, filter) => {
+            if (filter.kind === 'blur') {
+                return total + filter.radius * 3;
+            }
+            if (filter.kind === 'drop-shadow') {
+                return total + Math.max(Math.abs(filter.shadow.offsetX), Math.abs(filter.shadow.offsetY)) + filter.shadow.blur * 1.5;
+            }
+            return total;
+        }, 0) + 1;
+    const marginX = reach / Math.max(box.width, 1);
+    const marginY = reach / Math.max(box.height, 1);
+    context.defs.push(
+        `<filter id="${id}" x="${formatPercentage(-marginX)}" y="${formatPercentage(-marginY)}" width="${formatPercentage(1 + marginX * 2)}" height="${formatPercentage(1 + marginY * 2)}" color-interpolation-filters="sRGB">${primitives}</filter>`,
+    );
     return id;
 };
 
-const ensureGradient = (gradient: LinearGradientFill, context: RenderContext): string => {
+// Matrices and transfer functions from the Filter Effects spec's shorthand definitions
+const cssFilterPrimitive = (filter: CssFilter, backdrop: boolean): string => {
+    const transfer = (attrs: string, channels = 'RGB') =>
+        `<feComponentTransfer>${Array.from(channels, (channel) => `<feFunc${channel} ${attrs} />`).join('')}</feComponentTransfer>`;
+    switch (filter.kind) {
+        case 'blur':
+            return `<feGaussianBlur stdDeviation="${formatNumber(filter.radius)}"${backdrop ? ' edgeMode="duplicate"' : ''} />`;
+        case 'brightness':
+            return transfer(`type="linear" slope="${formatNumber(filter.amount)}"`);
+        case 'contrast':
+            return transfer(`type="linear" slope="${formatNumber(filter.amount)}" intercept="${formatNumber(0.5 - filter.amount / 2)}"`);
+        case 'invert':
+            return transfer(`type="table" tableValues="${formatNumber(filter.amount)} ${formatNumber(1 - filter.amount)}"`);
+        case 'opacity':
+            return transfer(`type="table" tableValues="0 ${formatNumber(filter.amount)}"`, 'A');
+        case 'grayscale':
+            return `<feColorMatrix type="saturate" values="${formatNumber(1 - filter.amount)}" />`;
+        case 'saturate':
+            return `<feColorMatrix type="saturate" values="${formatNumber(filter.amount)}" />`;
+        case 'hue-rotate':
+            return `<feColorMatrix type="hueRotate" values="${formatNumber(filter.angle)}" />`;
+        case 'sepia': {
+            const k = 1 - filter.amount;
+            const values = [
+                [0.393 + 0.607 * k, 0.769 - 0.769 * k, 0.189 - 0.189 * k],
+                [0.349 - 0.349 * k, 0.686 + 0.314 * k, 0.168 - 0.168 * k],
+                [0.272 - 0.272 * k, 0.534 - 0.534 * k, 0.131 + 0.869 * k],
+            ]
+                .map((row) => `${row.map(formatNumber).join(' ')} 0 0`)
+                .join(' ');
+            return `<feColorMatrix type="matrix" values="${values} 0 0 0 1 0" />`;
+        }
+        case 'drop-shadow': {
+            // Like box-shadow, the blur length is twice the standard deviation
+            const { shadow } = filter;
+            return `<feDropShadow dx="${formatNumber(shadow.offsetX)}" dy="${formatNumber(shadow.offsetY)}" stdDeviation="${formatNumber(shadow.blur / 2)}" flood-color="${shadow.color}" flood-opacity="${formatNumber(shadow.opacity)}" />`;
+        }
+    }
+};
+
+const ensureGradient = (gradient: LinearGradientFill | RadialGradientFill, context: RenderContext, box: BoxRect): string => {
     const id = `gradient-${context.gradientIndex++}`;
-    const { x1, y1, x2, y2 } = gradientVector(gradient.angle);
     const stops = gradient.stops
         .map((stop) => `<stop offset="${formatPercentage(stop.offset)}" stop-color="${stop.color}" stop-opacity="${formatNumber(stop.opacity)}" />`)
         .join('');
-    context.defs.push(`<linearGradient id="${id}" gradientUnits="objectBoundingBox" x1="${formatNumber(x1)}" y1="${formatNumber(y1)}" x2="${formatNumber(x2)}" y2="${formatNumber(y2)}">${stops}</linearGradient>`);
+    // Repeating gradients span one period and let the renderer tile it
+    const period = gradient.period ?? 1;
+    const spreadAttr = gradient.period ? ' spreadMethod="repeat"' : '';
+
+    if (gradient.kind === 'radial-gradient') {
+        // Unit circle of radius rx around the center, squashed vertically into the ellipse
+        const transform = `matrix(1 0 0 ${formatNumber(gradient.ry / gradient.rx)} ${formatNumber(box.x + gradient.cx)} ${formatNumber(box.y + gradient.cy)})`;
+        context.defs.push(`<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="0" cy="0" r="${formatNumber(gradient.rx * period)}" gradientTransform="${transform}"${spreadAttr}>${stops}</radialGradient>`);
+        return id;
+    }
+
+    const { x1, y1, x2, y2 } = gradientVector(gradient.angle, box);
+    const endX = x1 + (x2 - x1) * period;
+    const endY = y1 + (y2 - y1) * period;
+    context.defs.push(`<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${formatNumber(x1)}" y1="${formatNumber(y1)}" x2="${formatNumber(endX)}" y2="${formatNumber(endY)}"${spreadAttr}>${stops}</linearGradient>`);
+    return id;
+};
+
+// Largest wedge used for a conic gradient; interpolated segments are sliced finer
+const CONIC_MAX_WEDGE_DEGREES = 90;
+const CONIC_INTERPOLATED_WEDGE_DEGREES = 2;
+// Angular overlap between neighbouring wedges, hiding anti-aliasing seams
+const CONIC_SEAM_OVERLAP_DEGREES = 0.25;
+
+// SVG has no conic paint server, so the sweep is approximated with solid wedges inside a pattern
+// covering the box. Hard stops stay exact; smooth transitions use thin slices.
+const ensureConicPattern = (gradient: ConicGradientFill, context: RenderContext, box: BoxRect): string => {
+    const id = `gradient-${context.gradientIndex++}`;
+    const stops = expandConicStops(gradient);
+    const { cx, cy } = gradient;
+    // Reach past the farthest corner even when a 90 degree wedge's chord cuts inward
+    const radius = 2 * Math.max(Math.hypot(cx, cy), Math.hypot(box.width - cx, cy), Math.hypot(cx, box.height - cy), Math.hypot(box.width - cx, box.height - cy));
+    const pointAt = (turn: number) => {
+        const angle = ((gradient.from + turn * 360) * Math.PI) / 180;
+        return `${formatNumber(cx + radius * Math.sin(angle))} ${formatNumber(cy - radius * Math.cos(angle))}`;
+    };
+
+    const wedges: string[] = [];
+    for (let i = 0; i < stops.length - 1; i += 1) {
+        const from = stops[i];
+        const to = stops[i + 1];
+        const span = to.offset - from.offset;
+        if (span <= 0) {
+            continue;
+        }
+        const uniform = from.color === to.color && from.opacity === to.opacity;
+        const slices = Math.max(1, Math.ceil((span * 360) / (uniform ? CONIC_MAX_WEDGE_DEGREES : CONIC_INTERPOLATED_WEDGE_DEGREES)));
+        for (let slice = 0; slice < slices; slice += 1) {
+            const { color, opacity } = mixGradientStops(from, to, (slice + 0.5) / slices);
+            const start = from.offset + (span * slice) / slices;
+            const end = from.offset + (span * (slice + 1)) / slices + CONIC_SEAM_OVERLAP_DEGREES / 360;
+            const opacityAttr = opacity !== 1 ? ` fill-opacity="${formatNumber(opacity)}"` : '';
+            wedges.push(`<path d="M ${formatNumber(cx)} ${formatNumber(cy)} L ${pointAt(start)} L ${pointAt(end)} Z" fill="${color}"${opacityAttr} />`);
+        }
+    }
+
+    context.defs.push(`<pattern id="${id}" patternUnits="userSpaceOnUse" x="${formatNumber(box.x)}" y="${formatNumber(box.y)}" width="${formatNumber(box.width)}" height="${formatNumber(box.height)}">${wedges.join('')}</pattern>`);
     return id;
 };
 
-const gradientVector = (angle: number): { x1: number; y1: number; x2: number; y2: number } => {
+// Stops over one full turn, from 0 to 1, with repeating periods laid out end to end
+const expandConicStops = (gradient: ConicGradientFill): GradientStop[] => {
+    const { stops, period } = gradient;
+    if (!period) {
+        return [{ ...stops[0], offset: 0 }, ...stops, { ...stops[stops.length - 1], offset: 1 }];
+    }
+    // Very short periods are capped at one repeat per degree, where the wedges blur together anyway
+    const tileSize = Math.max(period, 1 / 360);
+    const repeats = Math.ceil(1 / tileSize);
+    const expanded = Array.from({ length: repeats }, (_, index) => stops.map((stop) => ({ ...stop, offset: (index + stop.offset) * tileSize }))).flat();
+    return [...expanded.filter((stop) => stop.offset < 1), { ...sampleGradientStops(expanded, 1, true), offset: 1 }];
+};
+
+// The CSS gradient line: through the box center along the angle (0deg points up, clockwise),
+// long enough that the corners reach 0% and 100%. Stop offsets were normalized against it.
+const gradientVector = (angle: number, box: BoxRect): { x1: number; y1: number; x2: number; y2: number } => {
     const rad = (angle * Math.PI) / 180;
-    const x = Math.cos(rad);
-    const y = Math.sin(rad);
-    const x1 = (1 - x) / 2;
-    const y1 = (1 - y) / 2;
-    const x2 = (1 + x) / 2;
-    const y2 = (1 + y) / 2;
-    return { x1, y1, x2, y2 };
+    const dx = Math.sin(rad);
+    const dy = -Math.cos(rad);
+    const half = (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2;
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    return { x1: cx - dx * half, y1: cy - dy * half, x2: cx + dx * half, y2: cy + dy * half };
 };
 
+const ellipsePath = (cx: number, cy: number, rx: number, ry: number): string =>
+    `M ${formatNumber(cx - rx)} ${formatNumber(cy)} A ${formatNumber(rx)} ${formatNumber(ry)} 0 1 0 ${formatNumber(cx + rx)} ${formatNumber(cy)} ` +
+    `A ${formatNumber(rx)} ${formatNumber(ry)} 0 1 0 ${formatNumber(cx - rx)} ${formatNumber(cy)} Z`;
+
+// Rounded rectangle with elliptical arc corners, radii scaled down to fit as CSS does
 const roundedRectPath = (x: number, y: number, width: number, height: number, radii: BorderRadius): string => {
-    const tl = Math.min(radii.topLeft, width / 2, height / 2);
-    const tr = Math.min(radii.topRight, width / 2, height / 2);
-    const br = Math.min(radii.bottomRight, width / 2, height / 2);
-    const bl = Math.min(radii.bottomLeft, width / 2, height / 2);
+    const { topLeft, topRight, bottomRight, bottomLeft } = scaleBorderRadius(radii, width, height);
+    const right = x + width;
+    const bottom = y + height;
+    // A corner with a zero radius on either axis is square
+    const rounded = ({ x: rx, y: ry }: CornerRadius) => rx > 0 && ry > 0;
+    const arc = (corner: CornerRadius, endX: number, endY: number) =>
+        rounded(corner) ? [`A ${formatNumber(corner.x)} ${formatNumber(corner.y)} 0 0 1 ${formatNumber(endX)} ${formatNumber(endY)}`] : [];
+    const inset = (corner: CornerRadius, axis: 'x' | 'y') => (rounded(corner) ? corner[axis] : 0);
 
     return [
-        `M ${formatNumber(x + tl)} ${formatNumber(y)}`,
-        `H ${formatNumber(x + width - tr)}`,
-        `Q ${formatNumber(x + width)} ${formatNumber(y)} ${formatNumber(x + width)} ${formatNumber(y + tr)}`,
-        `V ${formatNumber(y + height - br)}`,
-        `Q ${formatNumber(x + width)} ${formatNumber(y + height)} ${formatNumber(x + width - br)} ${formatNumber(y + height)}`,
-        `H ${formatNumber(x + bl)}`,
-        `Q ${formatNumber(x)} ${formatNumber(y + height)} ${formatNumber(x)} ${formatNumber(y + height - bl)}`,
-        `V ${formatNumber(y + tl)}`,
-        `Q ${formatNumber(x)} ${formatNumber(y)} ${formatNumber(x + tl)} ${formatNumber(y)}`,
+        `M ${formatNumber(x + inset(topLeft, 'x'))} ${formatNumber(y)}`,
+        `H ${formatNumber(right - inset(topRight, 'x'))}`,
+        ...arc(topRight, right, y + topRight.y),
+        `V ${formatNumber(bottom - inset(bottomRight, 'y'))}`,
+        ...arc(bottomRight, right - bottomRight.x, bottom),
+        `H ${formatNumber(x + inset(bottomLeft, 'x'))}`,
+        ...arc(bottomLeft, x, bottom - bottomLeft.y),
+        `V ${formatNumber(y + inset(topLeft, 'y'))}`,
+        ...arc(topLeft, x + topLeft.x, y),
         'Z',
     ].join(' ');
 };
@@ -1339,6 +4887,33 @@ const ensureClipPath = (node: BoxNode, context: RenderContext): string => {
     return id;
 };
 
+// clip-path and mask sit on the group outside the node's own transform, so their contents carry it
+const ensureShapeClip = (shape: ClipShape, transform: TransformMatrix | undefined, context: RenderContext): string => {
+    const id = `clip-${context.filterIndex++}`;
+    const placement = `${transform ? `${formatMatrix(transform)} ` : ''}translate(${formatNumber(shape.x)} ${formatNumber(shape.y)})`;
+    const ruleAttr = shape.clipRule === 'evenodd' ? ' clip-rule="evenodd"' : '';
+    context.defs.push(`<clipPath id="${id}" clipPathUnits="userSpaceOnUse"><path d="${escapeAttribute(shape.d)}"${ruleAttr} transform="${placement}" /></clipPath>`);
+    return id;
+};
+
+// CSS masks default to alpha; gradient layers are also painted white so luminance masking agrees
+const ensureMask = async (layers: BackgroundLayer[], transform: TransformMatrix | undefined, context: RenderContext): Promise<string> => {
+    const id = `mask-${context.filterIndex++}`;
+    const content = (
+        await Promise.all(
+            layers.map((layer) =>
+                renderBackgroundLayer(
+                    layer.image.kind === 'url' ? layer : { ...layer, image: { ...layer.image, stops: layer.image.stops.map((stop) => ({ ...stop, color: '#ffffff' })) } },
+                    context,
+                ),
+            ),
+        )
+    ).join('');
+    const transformAttr = transform ? ` transform="${formatMatrix(transform)}"` : '';
+    context.defs.push(`<mask id="${id}" style="mask-type:alpha"><g${transformAttr}>${content}</g></mask>`);
+    return id;
+};
+
 const normalizeFontWeight = (weight: number | string): string => {
     const w = String(weight).trim().toLowerCase();
     // Map common Tailwind numeric weights to valid SVG values
@@ -1350,7 +4925,7 @@ const normalizeFontWeight = (weight: number | string): string => {
     return `font-weight="${escapeAttribute(String(weight))}"`;
 };
 
-const escapeAttribute = (value: string): string => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+const escapeAttribute = (value: string): string => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
 
 const escapeText = (value: string): string =>
     value
@@ -1363,4 +4938,7 @@ const formatNumber = (value: number): string => {
     return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(3).replace(/0+$/, '').replace(/\.$/, '');
 };
 
+const formatMatrix = ({ a, b, c, d, e, f }: TransformMatrix): string =>
+    `matrix(${[a, b, c, d, e, f].map(formatNumber).join(' ')})`;
+
 const formatPercentage = (value: number): string => `${Math.round(value * 10000) / 100}%`;
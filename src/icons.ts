@@ -0,0 +1,251 @@
+// Icon font conventions recognised on captured elements
+export type IconSet =
+    | 'material-symbols-outlined'
+    | 'material-symbols-rounded'
+    | 'material-symbols-sharp'
+    | 'material-icons'
+    | 'font-awesome'
+    | 'data-icon';
+
+export type IconRequest = {
+    set: IconSet;
+    name: string; // Ligature text, `fa-*` suffix or `data-icon` value
+    variant?: string; // e.g. `solid`/`brands` for Font Awesome, `outlined`/`round` for Material Icons
+    fill: number; // FILL axis, 0 (outlined) to 1 (filled)
+    weight: number; // wght axis or font-weight
+};
+
+export type IconGlyph = {
+    viewBox: string;
+    path?: string; // Single filled path
+    filledPath?: string; // Used instead of `path` when FILL is 1
+    markup?: string; // Arbitrary SVG content; `currentColor` resolves to the icon color
+    weights?: boolean; // The provider already honoured the requested weight
+};
+
+export type IconProvider = (request: IconRequest) => IconGlyph | null;
+
+export type IconRegistryOptions = {
+    sets?: IconSet[]; // Only answer requests from these conventions (default: all)
+    variant?: string; // Only answer requests for this variant
+};
+
+export type ResolvedIcon = IconRequest & {
+    glyph: IconGlyph;
+    missing: boolean; // Nothing resolved the request and `glyph` is the placeholder
+};
+
+const MATERIAL_SYMBOL_CLASSES: IconSet[] = ['material-symbols-outlined', 'material-symbols-rounded', 'material-symbols-sharp'];
+const MATERIAL_ICON_CLASS = /^material-icons(?:-(outlined|round|sharp|two-tone))?$/;
+const FONT_AWESOME_VARIANTS: Record<string, string> = {
+    fas: 'solid',
+    far: 'regular',
+    fal: 'light',
+    fat: 'thin',
+    fad: 'duotone',
+    fab: 'brands',
+    'fa-solid': 'solid',
+    'fa-regular': 'regular',
+    'fa-light': 'light',
+    'fa-thin': 'thin',
+    'fa-duotone': 'duotone',
+    'fa-brands': 'brands',
+    'fa-sharp': 'sharp',
+};
+// Sizing, animation and layout utilities that are never icon names
+const FONT_AWESOME_MODIFIER = /^fa-(?:\d+x|2?xs|sm|lg|xl|2xl|fw|li|ul|border|inverse|spin|spin-pulse|spin-reverse|pulse|beat|beat-fade|bounce|fade|flip|shake|stack|stack-1x|stack-2x|pull-(?:left|right|start|end)|rotate-\d+|rotate-by|flip-(?:horizontal|vertical|both)|swap-opacity|layers|layers-text|layers-counter)$/;
+
+// Placeholder drawn for glyphs no provider can resolve: a dashed frame around a question mark
+const MISSING_ICON_GLYPH: IconGlyph = {
+    viewBox: '0 0 24 24',
+    markup:
+        '<rect x="1.5" y="1.5" width="21" height="21" rx="3" fill="none" stroke="currentColor" stroke-width="1.5" stroke-dasharray="3 2" />' +
+        '<path transform="translate(4.8 4.8) scale(0.6)" fill="currentColor" d="M11.07 12.85c.77-1.39 2.25-2.21 3.11-3.44.91-1.29.4-3.7-2.18-3.7-1.69 0-2.52 1.28-2.87 2.34L6.54 6.96C7.25 4.83 9.18 3 11.99 3c2.35 0 3.96 1.07 4.78 2.41.7 1.15 1.11 3.3.03 4.9-1.2 1.77-2.35 2.31-2.97 3.45-.25.46-.35.76-.35 2.24h-2.89c-.01-.78-.13-2.05.48-3.15zM14 20c0 1.1-.9 2-2 2s-2-.9-2-2 .9-2 2-2 2 .9 2 2z" />',
+};
+
+// Material Symbols SVG paths - common icons used in the UI
+const MATERIAL_SYMBOLS_PATHS: Record<string, IconGlyph> = {
+    'dashboard': { path: 'M13 9V3h8v6h-8zm-2 0H3V3h8v6zm2 2h8v10h-8V11zm-2 0v10H3V11h8z', viewBox: '0 0 24 24' },
+    'calendar_month': { path: 'M9 11H7v2h2v-2zm4 0h-2v2h2v-2zm4 0h-2v2h2v-2zm2-7h-1V2h-2v2H8V2H6v2H5c-1.11 0-1.99.9-1.99 2L3 20c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zm0 16H5V9h14v11z', viewBox: '0 0 24 24' },
+    'bed': { path: 'M7 13c1.66 0 3-1.34 3-3S8.66 7 7 7s-3 1.34-3 3 1.34 3 3 3zm12-6h-8v7H3V5H1v15h2v-3h18v3h2v-9c0-2.21-1.79-4-4-4z', viewBox: '0 0 24 24' },
+    'bar_chart': { path: 'M5 9.2h3V19H5V9.2zM10.6 5h2.8v14h-2.8V5zm5.6 8H19v6h-2.8v-6z', viewBox: '0 0 24 24' },
+    'settings': { path: 'M19.14 12.94c.04-.3.06-.61.06-.94 0-.32-.02-.64-.07-.94l2.03-1.58c.18-.14.23-.41.12-.61l-1.92-3.32c-.12-.22-.37-.29-.59-.22l-2.39.96c-.5-.38-1.03-.7-1.62-.94l-.36-2.54c-.04-.24-.24-.41-.48-.41h-3.84c-.24 0-.43.17-.47.41l-.36 2.54c-.59.24-1.13.57-1.62.94l-2.39-.96c-.22-.08-.47 0-.59.22L2.74 8.87c-.12.21-.08.47.12.61l2.03 1.58c-.05.3-.09.63-.09.94s.02.64.07.94l-2.03 1.58c-.18.14-.23.41-.12.61l1.92 3.32c.12.22.37.29.59.22l2.39-.96c.5.38 1.03.7 1.62.94l.36 2.54c.05.24.24.41.48.41h3.84c.24 0 .44-.17.47-.41l.36-2.54c.59-.24 1.13-.56 1.62-.94l2.39.96c.22.08.47 0 .59-.22l1.92-3.32c.12-.22.07-.47-.12-.61l-2.01-1.58zM12 15.6c-1.98 0-3.6-1.62-3.6-3.6s1.62-3.6 3.6-3.6 3.6 1.62 3.6 3.6-1.62 3.6-3.6 3.6z', viewBox: '0 0 24 24' },
+    'help_center': { path: 'M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-7 15h-2v-2h2v2zm1.07-7.75l-.9.92C11.45 11.9 11 12.5 11 14h-2v-.5c0-1.1.45-2.1 1.17-2.83l1.24-1.26c.37-.36.59-.86.59-1.41 0-1.1-.9-2-2-2s-2 .9-2 2H6c0-2.21 1.79-4 4-4s4 1.79 4 4c0 .88-.36 1.68-.93 2.25z', viewBox: '0 0 24 24' },
+    'logout': { path: 'M17 7l-1.41 1.41L18.17 11H8v2h10.17l-2.58 2.58L17 17l5-5zM4 5h8V3H4c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h8v-2H4V5z', viewBox: '0 0 24 24' },
+    'search': { path: 'M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z', viewBox: '0 0 24 24' },
+    'expand_more': { path: 'M16.59 8.59L12 13.17 7.41 8.59 6 10l6 6 6-6z', viewBox: '0 0 24 24' },
+    'add': { path: 'M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z', viewBox: '0 0 24 24' },
+    'edit': { path: 'M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z', viewBox: '0 0 24 24' },
+    'content_copy': { path: 'M16 1H4c-1.1 0-2 .9-2 2v14h2V3h12V1zm3 4H8c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h11c1.1 0 2-.9 2-2V7c0-1.1-.9-2-2-2zm0 16H8V7h11v14z', viewBox: '0 0 24 24' },
+    'delete': { path: 'M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z', viewBox: '0 0 24 24' },
+    'chevron_left': { path: 'M15.41 7.41L14 6l-6 6 6 6 1.41-1.41L10.83 12z', viewBox: '0 0 24 24' },
+    'chevron_right': { path: 'M10 6L8.59 7.41 13.17 12l-4.58 4.59L10 18l6-6z', viewBox: '0 0 24 24' },
+};
+
+// Recognise an icon-font element and describe the glyph it shows. Returns null for ordinary elements.
+export const detectIcon = (element: HTMLElement, style: CSSStyleDeclaration): IconRequest | null => {
+    const classes = Array.from(element.classList);
+    const dataIcon = element.getAttribute('data-icon')?.trim() || '';
+    const ligature = element.textContent?.trim() || '';
+    const { fill, weight } = parseIconVariation(style);
+
+    const symbolSet = MATERIAL_SYMBOL_CLASSES.find((set) => classes.includes(set));
+    if (symbolSet) {
+        return { set: symbolSet, name: ligature || dataIcon, fill, weight };
+    }
+
+    for (const className of classes) {
+        const match = className.match(MATERIAL_ICON_CLASS);
+        if (match) {
+            const variant = match[1] ?? 'filled';
+            // Classic Material Icons have no FILL axis; only the filled family is solid
+            return { set: 'material-icons', name: ligature || dataIcon, variant, fill: variant === 'filled' ? 1 : 0, weight };
+        }
+    }
+
+    const faVariantClass = classes.find((className) => className in FONT_AWESOME_VARIANTS);
+    const faName = classes.find((className) => className.startsWith('fa-') && !(className in FONT_AWESOME_VARIANTS) && !FONT_AWESOME_MODIFIER.test(className));
+    if (faName && (faVariantClass || classes.includes('fa'))) {
+        const variant = faVariantClass ? FONT_AWESOME_VARIANTS[faVariantClass] : 'solid';
+        return { set: 'font-awesome', name: faName.slice(3), variant, fill: variant === 'regular' ? 0 : 1, weight };
+    }
+
+    // Containers sometimes carry data-icon as metadata; only leaf elements are treated as glyphs
+    if (dataIcon && element.children.length === 0) {
+        return { set: 'data-icon', name: dataIcon, fill, weight };
+    }
+    return null;
+};
+
+// Read the FILL and wght axes from font-variation-settings, falling back to font-weight
+const parseIconVariation = (style: CSSStyleDeclaration): { fill: number; weight: number } => {
+    const settings = style.fontVariationSettings || '';
+    const axis = (tag: string) => {
+        const match = settings.match(new RegExp(`["']${tag}["']\\s+(-?[\\d.]+)`));
+        return match ? parseFloat(match[1]) : null;
+    };
+    const fontWeight = parseFloat(style.fontWeight);
+    return {
+        fill: axis('FILL') ?? 0,
+        weight: axis('wght') ?? (Number.isNaN(fontWeight) ? 400 : fontWeight),
+    };
+};
+
+// Ask each provider in turn, then the built-in Material table; unresolved glyphs get the placeholder.
+export const resolveIcon = (request: IconRequest, providers: IconProvider[]): ResolvedIcon => {
+    for (const provider of [...providers, builtInIconProvider]) {
+        const glyph = provider(request);
+        if (glyph) {
+            return { ...request, glyph, missing: false };
+        }
+    }
+    return { ...request, glyph: MISSING_ICON_GLYPH, missing: true };
+};
+
+// Registry over an in-memory table. String entries are treated as 24x24 path data.
+export const createIconRegistry = (icons: Record<string, IconGlyph | string>, options: IconRegistryOptions = {}): IconProvider => {
+    const table = new Map<string, IconGlyph>();
+    Object.entries(icons).forEach(([name, glyph]) => {
+        table.set(name, typeof glyph === 'string' ? { viewBox: '0 0 24 24', path: glyph } : glyph);
+    });
+    return (request) => {
+        if (options.sets && !options.sets.includes(request.set)) {
+            return null;
+        }
+        if (options.variant && options.variant !== request.variant) {
+            return null;
+        }
+        // Material ligatures use underscores while sprite ids usually use dashes
+        return table.get(request.name) ?? table.get(request.name.replace(/_/g, '-')) ?? null;
+    };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+// A { path | markup, viewBox } entry of a plain icon map
+const parseGlyphEntry = (entry: Record<string, unknown>): IconGlyph | null => {
+    const path = optionalString(entry.path);
+    const markup = optionalString(entry.markup);
+    if (path === undefined && markup === undefined) {
+        return null;
+    }
+    return {
+        viewBox: optionalString(entry.viewBox) ?? '0 0 24 24',
+        path,
+        filledPath: optionalString(entry.filledPath),
+        markup,
+        weights: typeof entry.weights === 'boolean' ? entry.weights : undefined,
+    };
+};
+
+// Registry from a JSON icon pack. Accepts Iconify collections ({ icons: { name: { body } } })
+// and plain maps of name -> path data or name -> { path | markup, viewBox }.
+export const createIconRegistryFromJson = (json: unknown, options: IconRegistryOptions = {}): IconProvider => {
+    if (!isRecord(json)) {
+        throw new Error('Icon pack JSON must be an object.');
+    }
+    const icons: Record<string, IconGlyph | string> = {};
+
+    if (isRecord(json.icons)) {
+        const defaultWidth = Number(json.width) || 16;
+        const defaultHeight = Number(json.height) || 16;
+        Object.entries(json.icons).forEach(([name, icon]) => {
+            if (!isRecord(icon) || typeof icon.body !== 'string') {
+                return;
+            }
+            const left = Number(icon.left) || 0;
+            const top = Number(icon.top) || 0;
+            const width = Number(icon.width) || defaultWidth;
+            const height = Number(icon.height) || defaultHeight;
+            icons[name] = { viewBox: `${left} ${top} ${width} ${height}`, markup: icon.body };
+        });
+        // Iconify aliases point at another icon by name
+        Object.entries(isRecord(json.aliases) ? json.aliases : {}).forEach(([name, alias]) => {
+            const parent = isRecord(alias) && typeof alias.parent === 'string' ? icons[alias.parent] : undefined;
+            if (parent) {
+                icons[name] = parent;
+            }
+        });
+        return createIconRegistry(icons, options);
+    }
+
+    Object.entries(json).forEach(([name, icon]) => {
+        const glyph = typeof icon === 'string' ? icon : isRecord(icon) ? parseGlyphEntry(icon) : null;
+        if (glyph) {
+            icons[name] = glyph;
+        }
+    });
+    return createIconRegistry(icons, options);
+};
+
+// Registry from an SVG sprite: every <symbol id> becomes a glyph, keyed by its id.
+export const createIconRegistryFromSprite = (spriteMarkup: string, options: IconRegistryOptions = {}): IconProvider => {
+    const doc = new DOMParser().parseFromString(spriteMarkup, 'image/svg+xml');
+    if (doc.querySelector('parsererror')) {
+        throw new Error('Icon sprite is not valid SVG.');
+    }
+    const icons: Record<string, IconGlyph> = {};
+    const serializer = new XMLSerializer();
+    doc.querySelectorAll('symbol[id]').forEach((symbol) => {
+        const content = Array.from(symbol.childNodes)
+            .map((child) => serializer.serializeToString(child))
+            .join('')
+            .replace(/\sxmlns="[^"]*"/g, '');
+        // Presentation attributes on the symbol itself (fill="none" stroke="currentColor" ...) move to a wrapper group
+        const inherited = Array.from(symbol.attributes)
+            .filter((attribute) => !['id', 'viewBox', 'xmlns', 'preserveAspectRatio'].includes(attribute.name))
+            .map((attribute) => ` ${attribute.name}="${escapeAttribute(attribute.value)}"`)
+            .join('');
+        const markup = inherited ? `<g${inherited}>${content}</g>` : content;
+        icons[symbol.id] = { viewBox: symbol.getAttribute('viewBox') || '0 0 24 24', markup };
+    });
+    return createIconRegistry(icons, options);
+};
+
+const escapeAttribute = (value: string): string => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+
+const builtInIconProvider = createIconRegistry(MATERIAL_SYMBOLS_PATHS, {
+    sets: [...MATERIAL_SYMBOL_CLASSES, 'material-icons', 'data-icon'],
+});
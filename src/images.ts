@@ -0,0 +1,141 @@
+// How embedded raster images are stored: re-encoded to `format` at `quality`, and never kept at
+// more than `pixelRatio` image pixels per rendered CSS pixel.
+export type ImageEncoding = {
+    format: 'original' | 'webp' | 'jpeg';
+    quality: number; // 0-1, used by the lossy formats
+    pixelRatio: number;
+};
+
+export type ImageReportEntry = {
+    source: string;
+    uses: number;
+    naturalWidth: number | null;
+    naturalHeight: number | null;
+    width: number | null; // Embedded pixel size
+    height: number | null;
+    mimeType: string | null; // null when the source could not be fetched and stays a link
+    originalBytes: number | null;
+    embeddedBytes: number; // Characters the image adds to the SVG, data URI included
+};
+
+export type ImageReport = {
+    images: ImageReportEntry[];
+    uses: number;
+    originalBytes: number;
+    embeddedBytes: number;
+};
+
+export type EncodedImage = {
+    href: string;
+    width: number | null;
+    height: number | null;
+    mimeType: string | null;
+    originalBytes: number | null;
+};
+
+// Vector and animated images lose what makes them worth embedding when rasterized
+const PASSTHROUGH_TYPES = new Set(['image/svg+xml', 'image/gif']);
+const ENCODABLE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp']);
+
+// Fetch a source and shrink it to the largest size it is rendered at. Sources that cannot be
+// fetched stay links; re-encoding is skipped when it would only make the file bigger. Callers
+// encode each source once per conversion, so fetched files are not kept beyond it.
+export const encodeImage = async (url: string, rendered: { width: number; height: number }, encoding: ImageEncoding): Promise<EncodedImage> => {
+    const blob = await fetchImageBlob(url);
+    if (!blob) {
+        return { href: url, width: null, height: null, mimeType: null, originalBytes: null };
+    }
+    const original = async (size: { width: number; height: number } | null): Promise<EncodedImage> => ({
+        href: (await blobToDataUri(blob)) ?? url,
+        width: size?.width ?? null,
+        height: size?.height ?? null,
+        mimeType: blob.type || null,
+        originalBytes: blob.size,
+    });
+    if (PASSTHROUGH_TYPES.has(blob.type) || typeof createImageBitmap === 'undefined') {
+        return original(null);
+    }
+
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(blob);
+    } catch (error) {
+        console.warn(`⚠️ Unable to decode image, embedding it unchanged: ${url.substring(0, 60)}`, error);
+        return original(null);
+    }
+    const natural = { width: bitmap.width, height: bitmap.height };
+    // Keep enough pixels for both axes so the aspect ratio is preserved
+    const needed =
+        rendered.width > 0 && rendered.height > 0
+            ? Math.max((rendered.width * encoding.pixelRatio) / natural.width, (rendered.height * encoding.pixelRatio) / natural.height)
+            : 1;
+    const scale = Math.min(1, needed);
+    if (scale === 1 && encoding.format === 'original') {
+        bitmap.close();
+        return original(natural);
+    }
+
+    const width = Math.max(1, Math.round(natural.width * scale));
+    const height = Math.max(1, Math.round(natural.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        bitmap.close();
+        return original(natural);
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    let mimeType = encoding.format === 'original' ? (ENCODABLE_TYPES.has(blob.type) ? blob.type : 'image/png') : `image/${encoding.format}`;
+    // JPEG has no alpha channel
+    if (mimeType === 'image/jpeg' && hasTransparency(context, width, height)) {
+        mimeType = 'image/png';
+    }
+    const encoded = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, encoding.quality));
+    if (!encoded || (scale === 1 && encoded.size >= blob.size)) {
+        return original(natural);
+    }
+    return {
+        href: (await blobToDataUri(encoded)) ?? url,
+        width,
+        height,
+        // Browsers without a WebP encoder fall back to PNG
+        mimeType: encoded.type || mimeType,
+        originalBytes: blob.size,
+    };
+};
+
+const fetchImageBlob = async (url: string): Promise<Blob | null> => {
+    try {
+        console.log(`🖼️ Fetching image: ${url.substring(0, 60)}...`);
+        const response = await fetch(url);
+        if (!response.ok) {
+            console.warn(`❌ Failed to fetch image: ${url} (${response.status})`);
+            return null;
+        }
+        return await response.blob();
+    } catch (error) {
+        console.warn(`❌ Error fetching image: ${url.substring(0, 60)}`, error);
+        return null;
+    }
+};
+
+const blobToDataUri = (blob: Blob): Promise<string | null> =>
+    new Promise<string | null>((resolve) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => resolve(null);
+        reader.readAsDataURL(blob);
+    });
+
+const hasTransparency = (context: CanvasRenderingContext2D, width: number, height: number): boolean => {
+    const { data } = context.getImageData(0, 0, width, height);
+    for (let index = 3; index < data.length; index += 4) {
+        if (data[index] < 255) {
+            return true;
+        }
+    }
+    return false;
+};
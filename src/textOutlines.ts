@@ -0,0 +1,245 @@
+import { create, type Font, type FontCollection, type Glyph } from 'fontkit';
+import {
+    collectFontFaceDescriptors,
+    fetchFontBytes,
+    normalizeFontStyle,
+    normalizeFontWeight,
+    pickSource,
+    selectFontFaceRules,
+    splitFontFamilies,
+    type FontFaceDescriptor,
+} from './fonts';
+
+// fontkit reads plain byte arrays in the browser; its typings only name Node's Buffer
+declare module 'fontkit' {
+    export function create(buffer: Uint8Array, postscriptName?: string): Font | FontCollection;
+}
+
+// A font file supplied by the caller (TTF, OTF, WOFF or WOFF2). Family, weight and style are
+// read from the file's name and OS/2 tables unless given explicitly.
+export type OutlineFontSource = {
+    data: ArrayBuffer | Uint8Array;
+    family?: string;
+    weight?: number;
+    style?: string;
+};
+
+// The subset of a text run the outliner needs
+export type OutlineRun = {
+    content: string;
+    fontFamily: string;
+    fontSize: number;
+    fontWeight: number | string;
+    fontStyle: string;
+    letterSpacing: number;
+};
+
+export type RunLayout = {
+    advance: number; // Total advance in px, letter-spacing included
+    draw: (x: number, baseline: number) => string; // Path data with the pen starting at x on the baseline
+};
+
+export type TextOutliner = {
+    layoutRun: (run: OutlineRun) => Promise<RunLayout | null>; // null when no font covers every character
+};
+
+type LoadedFace = {
+    font: Font;
+    weight: [number, number];
+    style: string;
+    unicodeRange: Array<[number, number]> | null;
+};
+
+type PlacedGlyph = {
+    glyph: Glyph;
+    x: number; // Pen offset from the run start, px
+    y: number; // Offset above the baseline, px
+    scale: number;
+    skew: number;
+};
+
+// Browsers slant synthesized obliques by roughly 14 degrees
+const SYNTHETIC_OBLIQUE_SKEW = Math.tan((14 * Math.PI) / 180);
+
+// Ligatures would swallow the per-character letter-spacing CSS applies
+const NO_LIGATURES = { liga: false, clig: false, dlig: false };
+
+// Parsed page fonts keyed by source URL
+const pageFontCache = new Map<string, Promise<Font | null>>();
+
+// Variable font instances keyed by the default instance, then wght
+const variationCache = new WeakMap<Font, Map<number, Font>>();
+
+// Page faces come from the @font-face rules of `doc`, the document the text was captured from
+export const createTextOutliner = (sources: OutlineFontSource[] = [], doc: Document = document): TextOutliner => {
+    const userFaces = new Map<string, LoadedFace[]>();
+    sources.forEach((source) => {
+        const loaded = loadUserFace(source);
+        if (loaded) {
+            const key = loaded.family.toLowerCase();
+            userFaces.set(key, [...(userFaces.get(key) ?? []), loaded.face]);
+        }
+    });
+    let descriptors: FontFaceDescriptor[] | null = null;
+
+    // Faces for every family in the run's list, best match first; later entries only fill in
+    // characters the earlier ones lack.
+    const resolveFaces = async (run: OutlineRun): Promise<LoadedFace[]> => {
+        const weight = normalizeFontWeight(run.fontWeight);
+        const style = normalizeFontStyle(run.fontStyle);
+        const codePoints = new Set(Array.from(run.content, (char) => char.codePointAt(0)!));
+        descriptors ??= collectFontFaceDescriptors(doc);
+        const faces: LoadedFace[] = [];
+
+        for (const family of splitFontFamilies(run.fontFamily)) {
+            faces.push(...rankFaces(userFaces.get(family.toLowerCase()) ?? [], weight, style));
+            const rules = selectFontFaceRules(descriptors, { family, weight, style, codePoints });
+            const loaded = await Promise.all(rules.map(loadPageFace));
+            faces.push(...loaded.filter((face): face is LoadedFace => !!face));
+        }
+        return faces;
+    };
+
+    const layoutRun = async (run: OutlineRun): Promise<RunLayout | null> => {
+        const faces = await resolveFaces(run);
+        const segments = segmentByFace(run.content, faces);
+        if (!segments) {
+            return null;
+        }
+
+        const weight = normalizeFontWeight(run.fontWeight);
+        const italic = normalizeFontStyle(run.fontStyle) === 'italic';
+        const glyphs: PlacedGlyph[] = [];
+        let pen = 0;
+
+        segments.forEach(({ text, face }) => {
+            const font = instantiate(face, weight);
+            const scale = run.fontSize / font.unitsPerEm;
+            const skew = italic && face.style !== 'italic' ? SYNTHETIC_OBLIQUE_SKEW : 0;
+            const glyphRun = font.layout(text, run.letterSpacing ? NO_LIGATURES : undefined);
+            glyphRun.glyphs.forEach((glyph, index) => {
+                const position = glyphRun.positions[index];
+                glyphs.push({
+                    glyph,
+                    x: pen + position.xOffset * scale,
+                    y: position.yOffset * scale,
+                    scale,
+                    skew,
+                });
+                pen += position.xAdvance * scale;
+                if (!glyph.isMark) {
+                    pen += run.letterSpacing;
+                }
+            });
+        });
+
+        return {
+            advance: pen,
+            draw: (x, baseline) =>
+                glyphs
+                    .map(({ glyph, x: offsetX, y: offsetY, scale, skew }) =>
+                        glyph.path.transform(scale, 0, skew * scale, -scale, x + offsetX, baseline - offsetY).toSVG(),
+                    )
+                    .join(''),
+        };
+    };
+
+    return { layoutRun };
+};
+
+// Split text into runs of characters rendered by the same face, or null if some character has
+// no glyph in any of them.
+const segmentByFace = (text: string, faces: LoadedFace[]): Array<{ text: string; face: LoadedFace }> | null => {
+    const segments: Array<{ text: string; face: LoadedFace }> = [];
+    for (const char of text) {
+        const codePoint = char.codePointAt(0)!;
+        const face = faces.find(
+            (candidate) =>
+                (!candidate.unicodeRange || candidate.unicodeRange.some(([start, end]) => codePoint >= start && codePoint <= end)) &&
+                candidate.font.hasGlyphForCodePoint(codePoint),
+        );
+        if (!face) {
+            return null;
+        }
+        const last = segments[segments.length - 1];
+        if (last && last.face === face) {
+            last.text += char;
+        } else {
+            segments.push({ text: char, face });
+        }
+    }
+    return segments;
+};
+
+// Matching style first, then the closest weight
+const rankFaces = (faces: LoadedFace[], weight: number, style: string): LoadedFace[] => {
+    const distance = ({ weight: [min, max] }: LoadedFace) => (weight < min ? min - weight : weight > max ? weight - max : 0);
+    return [...faces].sort((a, b) => Number(b.style === style) - Number(a.style === style) || distance(a) - distance(b));
+};
+
+// Pin the wght axis of variable fonts to the requested weight
+const instantiate = (face: LoadedFace, weight: number): Font => {
+    const axis = face.font.variationAxes?.wght;
+    if (!axis) {
+        return face.font;
+    }
+    const value = Math.min(axis.max, Math.max(axis.min, weight));
+    const instances = variationCache.get(face.font) ?? new Map<number, Font>();
+    variationCache.set(face.font, instances);
+    let instance = instances.get(value);
+    if (!instance) {
+        instance = face.font.getVariation({ wght: value });
+        instances.set(value, instance);
+    }
+    return instance;
+};
+
+const loadUserFace = (source: OutlineFontSource): { family: string; face: LoadedFace } | null => {
+    const font = parseFont(source.data);
+    if (!font) {
+        return null;
+    }
+    const os2 = font['OS/2'];
+    const axis = font.variationAxes?.wght;
+    const weight: [number, number] = source.weight
+        ? [source.weight, source.weight]
+        : axis
+          ? [axis.min, axis.max]
+          : [os2?.usWeightClass ?? 400, os2?.usWeightClass ?? 400];
+    const italic = os2?.fsSelection.italic || os2?.fsSelection.oblique || font.italicAngle !== 0;
+    return {
+        family: source.family ?? font.getName('preferredFamily', 'en') ?? font.familyName,
+        face: {
+            font,
+            weight,
+            style: source.style ? normalizeFontStyle(source.style) : italic ? 'italic' : 'normal',
+            unicodeRange: null,
+        },
+    };
+};
+
+const loadPageFace = async (descriptor: FontFaceDescriptor): Promise<LoadedFace | null> => {
+    const source = pickSource(descriptor.sources);
+    if (!source) {
+        return null;
+    }
+    let promise = pageFontCache.get(source.url);
+    if (!promise) {
+        promise = fetchFontBytes(source.url).then((bytes) => (bytes ? parseFont(bytes) : null));
+        pageFontCache.set(source.url, promise);
+    }
+    const font = await promise;
+    return font ? { font, weight: descriptor.weight, style: descriptor.style, unicodeRange: descriptor.unicodeRange } : null;
+};
+
+// Collections (TTC/DFont) contribute their first face
+const parseFont = (data: ArrayBuffer | Uint8Array): Font | null => {
+    try {
+        const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+        const parsed = create(bytes);
+        return 'fonts' in parsed ? parsed.fonts[0] ?? null : parsed;
+    } catch (error) {
+        console.warn('❌ Unable to parse font file', error);
+        return null;
+    }
+};